@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Amount,
+  compareDecimal,
+  formatUnits,
+  parsePositiveUnits,
+  parseUnits,
+  toDecimalString,
+} from './amount';
+import { AmountError, ValidationError } from './types';
+
+describe('parseUnits', () => {
+  it('scales human values to raw units', () => {
+    expect(parseUnits('0.5', 18)).toBe(500000000000000000n);
+    expect(parseUnits('12', 2)).toBe(1200n);
+    expect(parseUnits('-1.25', 2)).toBe(-125n);
+  });
+
+  it('rejects excess precision unless a rounding mode is given', () => {
+    expect(() => parseUnits('1.234', 2)).toThrow(AmountError);
+    expect(parseUnits('1.234', 2, 'down')).toBe(123n);
+    expect(parseUnits('1.235', 2, 'halfUp')).toBe(124n);
+  });
+
+  it('rejects malformed input', () => {
+    expect(() => parseUnits('abc', 2)).toThrow(AmountError);
+    expect(() => parseUnits('.', 2)).toThrow(AmountError);
+    expect(() => parseUnits('1', -1)).toThrow(AmountError);
+  });
+});
+
+describe('parsePositiveUnits', () => {
+  it('rejects zero and negative amounts', () => {
+    expect(parsePositiveUnits('0.1', 8, 'amount')).toBe(10000000n);
+    expect(() => parsePositiveUnits('0', 8, 'amount')).toThrow(ValidationError);
+    expect(() => parsePositiveUnits('-1', 8, 'amount')).toThrow(/amount must be positive/);
+  });
+});
+
+describe('formatUnits', () => {
+  it('formats raw units without trailing zeros', () => {
+    expect(formatUnits('500000000000000000', 18)).toBe('0.5');
+    expect(formatUnits(-125n, 2)).toBe('-1.25');
+    expect(formatUnits(100n, 2)).toBe('1');
+  });
+});
+
+describe('rounding negatives', () => {
+  // -1.235 at two decimals; each mode from `divRound`.
+  const cases: Array<[Parameters<typeof parseUnits>[2], bigint]> = [
+    ['down', -123n],
+    ['up', -124n],
+    ['floor', -124n],
+    ['ceil', -123n],
+    ['halfUp', -124n],
+    ['halfEven', -124n],
+  ];
+  it.each(cases)('%s', (mode, expected) => {
+    expect(parseUnits('-1.235', 2, mode)).toBe(expected);
+  });
+
+  it('rounds half-even ties to the even neighbour', () => {
+    expect(parseUnits('-1.225', 2, 'halfEven')).toBe(-122n);
+    expect(parseUnits('-1.226', 2, 'halfEven')).toBe(-123n);
+    expect(parseUnits('-1.224', 2, 'halfUp')).toBe(-122n);
+  });
+});
+
+describe('Amount', () => {
+  it('adds and subtracts within its decimals', () => {
+    const a = Amount.parse('1.5', 8);
+    expect(a.add('0.25').toString()).toBe('1.75');
+    expect(a.sub('2').toString()).toBe('-0.5');
+    expect(a.sub('2').isNegative()).toBe(true);
+    expect(() => a.add('0.000000001')).toThrow(AmountError);
+  });
+
+  it('multiplies and divides with explicit rounding', () => {
+    const a = Amount.parse('-1', 2);
+    expect(a.div(3n).toString()).toBe('-0.33');
+    expect(a.div(3n, 'floor').toString()).toBe('-0.34');
+    expect(Amount.parse('2', 2).mul('0.125', 'halfUp').toString()).toBe('0.25');
+  });
+
+  it('compares amounts', () => {
+    const a = Amount.parse('1.10', 2);
+    expect(a.eq('1.1')).toBe(true);
+    expect(a.gt('-2')).toBe(true);
+    expect(Amount.min(a, Amount.parse('-3', 2)).toString()).toBe('-3');
+    expect(a.toFixed()).toBe('1.10');
+    expect(a.toRaw()).toBe('110');
+  });
+});
+
+describe('compareDecimal', () => {
+  it('compares across scales and signs', () => {
+    expect(compareDecimal('1.10', '1.1')).toBe(0);
+    expect(compareDecimal('-0.5', '0.1')).toBe(-1);
+    expect(compareDecimal('10', '9.999')).toBe(1);
+  });
+});
+
+describe('toDecimalString', () => {
+  it('expands exponent notation', () => {
+    expect(toDecimalString(1e-7)).toBe('0.0000001');
+    expect(toDecimalString(-2.25e-9)).toBe('-0.00000000225');
+    expect(toDecimalString(1.5e21)).toBe('1500000000000000000000');
+    expect(toDecimalString('0.5')).toBe('0.5');
+  });
+});
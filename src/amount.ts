@@ -0,0 +1,409 @@
+/**
+ * Exact decimal amounts backed by `bigint`. Every value is held as an
+ * integer count of the asset's smallest unit plus the number of decimals
+ * that unit represents, so conversions and arithmetic never go through
+ * floating point.
+ */
+import { AmountError, ValidationError } from './types';
+import type { Asset, CallOptions } from './types';
+
+/**
+ * How to treat digits beyond the target precision.
+ *
+ * - `down` / `up` — toward / away from zero
+ * - `floor` / `ceil` — toward negative / positive infinity
+ * - `halfUp` — nearest, ties away from zero
+ * - `halfEven` — nearest, ties to the even neighbour (banker's rounding)
+ */
+export type RoundingMode = 'down' | 'up' | 'floor' | 'ceil' | 'halfUp' | 'halfEven';
+
+/** Anything that can list assets — in practice `client.markets`. */
+export interface AssetSource {
+  assets(options?: CallOptions): Promise<Asset[]>;
+}
+
+/** Value accepted wherever an amount operand is expected. */
+export type AmountLike = Amount | string | bigint;
+
+const DECIMAL_RE = /^([+-])?(\d*)(?:\.(\d*))?$/;
+
+function assertDecimals(decimals: number): void {
+  if (!Number.isInteger(decimals) || decimals < 0) {
+    throw new AmountError(`Invalid decimals: ${decimals}`);
+  }
+}
+
+function pow10(n: number): bigint {
+  return 10n ** BigInt(n);
+}
+
+/**
+ * Divide `n` by a positive `d`, rounding the quotient according to `mode`.
+ */
+function divRound(n: bigint, d: bigint, mode: RoundingMode): bigint {
+  const q = n / d;
+  const r = n % d;
+  if (r === 0n) return q;
+
+  const negative = n < 0n;
+  const awayFromZero = negative ? q - 1n : q + 1n;
+  switch (mode) {
+    case 'down':
+      return q;
+    case 'up':
+      return awayFromZero;
+    case 'floor':
+      return negative ? q - 1n : q;
+    case 'ceil':
+      return negative ? q : q + 1n;
+    case 'halfUp':
+    case 'halfEven': {
+      const twice = (r < 0n ? -r : r) * 2n;
+      if (twice > d) return awayFromZero;
+      if (twice < d) return q;
+      if (mode === 'halfUp') return awayFromZero;
+      return q % 2n === 0n ? q : awayFromZero;
+    }
+  }
+}
+
+/**
+ * Split a decimal string into an unscaled integer and its scale, e.g.
+ * `"-1.50"` → `{ int: -150n, scale: 2 }`.
+ */
+function parseDecimal(value: string): { int: bigint; scale: number } {
+  const match = DECIMAL_RE.exec(value.trim());
+  if (!match || (!match[2] && !match[3])) {
+    throw new AmountError(`Invalid decimal amount: "${value}"`);
+  }
+  const [, sign, whole = '', fraction = ''] = match;
+  const int = BigInt((whole || '0') + fraction);
+  return { int: sign === '-' ? -int : int, scale: fraction.length };
+}
+
+/**
+ * Decimal string for a number without exponent notation, which `String()`
+ * uses below 1e-6 and from 1e21 (`1e-7` becomes `"0.0000001"`). Exponent
+ * strings are expanded the same way; anything else is returned as is.
+ */
+export function toDecimalString(value: number | string): string {
+  const s = String(value);
+  const match = /^(-?)(\d+)(?:\.(\d+))?e([+-]?\d+)$/i.exec(s);
+  if (!match) return s;
+  const [, sign, whole, fraction = '', exponent] = match;
+  const digits = whole + fraction;
+  const point = whole.length + Number(exponent);
+  let plain: string;
+  if (point <= 0) {
+    plain = `0.${'0'.repeat(-point)}${digits}`;
+  } else if (point >= digits.length) {
+    plain = digits + '0'.repeat(point - digits.length);
+  } else {
+    plain = `${digits.slice(0, point)}.${digits.slice(point)}`;
+  }
+  return sign + plain;
+}
+
+/**
+ * Convert a human-readable decimal string into raw smallest units.
+ *
+ * Values with more fractional digits than `decimals` throw an
+ * {@link AmountError} unless a `rounding` mode is given.
+ *
+ * @example
+ * parseUnits('0.5', 18);             // 500000000000000000n
+ * parseUnits('1.23456789', 6, 'down'); // 1234567n
+ */
+export function parseUnits(value: string, decimals: number, rounding?: RoundingMode): bigint {
+  assertDecimals(decimals);
+  const { int, scale } = parseDecimal(value);
+  if (scale <= decimals) {
+    return int * pow10(decimals - scale);
+  }
+  if (!rounding) {
+    throw new AmountError(
+      `Amount "${value}" has ${scale} decimal places; at most ${decimals} allowed`
+    );
+  }
+  return divRound(int, pow10(scale - decimals), rounding);
+}
+
+/**
+ * {@link parseUnits} for an amount that must be positive, such as a
+ * withdrawal or gift code value.
+ *
+ * @throws {ValidationError} if `value` is zero or negative.
+ */
+export function parsePositiveUnits(value: string, decimals: number, field: string): bigint {
+  const raw = parseUnits(value, decimals);
+  if (raw <= 0n) {
+    throw new ValidationError(`${field} must be positive, got "${value}"`);
+  }
+  return raw;
+}
+
+/**
+ * Format raw smallest units as a human-readable decimal string with
+ * trailing zeros removed.
+ *
+ * @example
+ * formatUnits('500000000000000000', 18); // "0.5"
+ */
+export function formatUnits(value: bigint | string, decimals: number): string {
+  assertDecimals(decimals);
+  const raw = typeof value === 'bigint' ? value : toRawBigInt(value);
+  const negative = raw < 0n;
+  const digits = (negative ? -raw : raw).toString();
+  if (decimals === 0) return raw.toString();
+
+  const padded = digits.padStart(decimals + 1, '0');
+  const intPart = padded.slice(0, -decimals);
+  const fraction = padded.slice(-decimals).replace(/0+$/, '');
+  const out = fraction ? `${intPart}.${fraction}` : intPart;
+  return negative ? `-${out}` : out;
+}
+
+/** Number of fractional digits in a decimal string (`"1.50"` → 2). */
+export function decimalPlaces(value: string): number {
+  return parseDecimal(value).scale;
+}
+
+/** Compare two decimal strings exactly: `-1`, `0` or `1`. */
+export function compareDecimal(a: string, b: string): -1 | 0 | 1 {
+  const x = parseDecimal(a);
+  const y = parseDecimal(b);
+  const scale = Math.max(x.scale, y.scale);
+  const xi = x.int * pow10(scale - x.scale);
+  const yi = y.int * pow10(scale - y.scale);
+  return xi < yi ? -1 : xi > yi ? 1 : 0;
+}
+
+function toRawBigInt(value: string): bigint {
+  if (value === '') return 0n;
+  if (!/^-?\d+$/.test(value)) {
+    throw new AmountError(`Invalid raw amount: "${value}" (expected an integer string)`);
+  }
+  return BigInt(value);
+}
+
+async function findAsset(source: AssetSource, asset: string | number): Promise<Asset> {
+  const assets = await source.assets();
+  const found =
+    typeof asset === 'number'
+      ? assets.find((a) => a.id === asset)
+      : assets.find((a) => a.symbol.toUpperCase() === asset.toUpperCase());
+  if (!found) {
+    throw new AmountError(`Unknown asset: ${asset}`);
+  }
+  return found;
+}
+
+/**
+ * Immutable exact amount of an asset.
+ *
+ * @example
+ * const qty = Amount.parse('0.1', 8);
+ * const fee = qty.mul('0.001', 'up');
+ * console.log(qty.sub(fee).toString()); // "0.0999"
+ * console.log(qty.toRaw());             // "10000000"
+ */
+export class Amount {
+  private constructor(
+    /** Value in the asset's smallest unit. */
+    readonly raw: bigint,
+    /** Number of decimals one whole unit is divided into. */
+    readonly decimals: number,
+    /** Asset symbol, when constructed via an asset-aware helper. */
+    readonly symbol?: string
+  ) {}
+
+  /** Parse a human-readable decimal string. See {@link parseUnits}. */
+  static parse(value: string, decimals: number, rounding?: RoundingMode): Amount {
+    return new Amount(parseUnits(value, decimals, rounding), decimals);
+  }
+
+  /** Wrap a raw smallest-unit value (integer string or bigint). */
+  static fromRaw(raw: bigint | string, decimals: number): Amount {
+    assertDecimals(decimals);
+    return new Amount(typeof raw === 'bigint' ? raw : toRawBigInt(raw), decimals);
+  }
+
+  static zero(decimals: number): Amount {
+    assertDecimals(decimals);
+    return new Amount(0n, decimals);
+  }
+
+  /**
+   * Parse a human-readable amount of `asset` (symbol or ID), looking up its
+   * decimals via `source.assets()`.
+   *
+   * @example
+   * const amount = await Amount.forAsset(client.markets, 'ETH', '0.5');
+   * amount.toRaw(); // "500000000000000000"
+   */
+  static async forAsset(
+    source: AssetSource,
+    asset: string | number,
+    value: string,
+    rounding?: RoundingMode
+  ): Promise<Amount> {
+    const info = await findAsset(source, asset);
+    return new Amount(parseUnits(value, info.decimals, rounding), info.decimals, info.symbol);
+  }
+
+  /** Wrap a raw amount of `asset`, looking up its decimals via `source.assets()`. */
+  static async fromRawForAsset(
+    source: AssetSource,
+    asset: string | number,
+    raw: bigint | string
+  ): Promise<Amount> {
+    const info = await findAsset(source, asset);
+    return new Amount(Amount.fromRaw(raw, info.decimals).raw, info.decimals, info.symbol);
+  }
+
+  static min(first: Amount, ...rest: Amount[]): Amount {
+    return rest.reduce((min, a) => (a.lt(min) ? a : min), first);
+  }
+
+  static max(first: Amount, ...rest: Amount[]): Amount {
+    return rest.reduce((max, a) => (a.gt(max) ? a : max), first);
+  }
+
+  add(other: AmountLike): Amount {
+    return this.with(this.raw + this.operand(other));
+  }
+
+  sub(other: AmountLike): Amount {
+    return this.with(this.raw - this.operand(other));
+  }
+
+  /**
+   * Multiply by an exact decimal factor (a price, fee rate, ...), rounding
+   * the result to this amount's precision. Defaults to `down`.
+   */
+  mul(factor: string | bigint, rounding: RoundingMode = 'down'): Amount {
+    if (typeof factor === 'bigint') return this.with(this.raw * factor);
+    const { int, scale } = parseDecimal(factor);
+    return this.with(divRound(this.raw * int, pow10(scale), rounding));
+  }
+
+  /**
+   * Divide by an exact decimal divisor, rounding the result to this
+   * amount's precision. Defaults to `down`.
+   */
+  div(divisor: string | bigint, rounding: RoundingMode = 'down'): Amount {
+    const { int, scale } =
+      typeof divisor === 'bigint' ? { int: divisor, scale: 0 } : parseDecimal(divisor);
+    if (int === 0n) throw new AmountError('Division by zero');
+    let n = this.raw * pow10(scale);
+    let d = int;
+    if (d < 0n) {
+      n = -n;
+      d = -d;
+    }
+    return this.with(divRound(n, d, rounding));
+  }
+
+  /** Change precision, rounding when reducing it. Defaults to `down`. */
+  rescale(decimals: number, rounding: RoundingMode = 'down'): Amount {
+    assertDecimals(decimals);
+    const raw =
+      decimals >= this.decimals
+        ? this.raw * pow10(decimals - this.decimals)
+        : divRound(this.raw, pow10(this.decimals - decimals), rounding);
+    return new Amount(raw, decimals, this.symbol);
+  }
+
+  /** Round to `places` fractional digits while keeping the same precision. */
+  round(places: number, rounding: RoundingMode = 'halfUp'): Amount {
+    if (places >= this.decimals) return this;
+    return this.rescale(places, rounding).rescale(this.decimals);
+  }
+
+  neg(): Amount {
+    return this.with(-this.raw);
+  }
+
+  abs(): Amount {
+    return this.raw < 0n ? this.neg() : this;
+  }
+
+  /** `-1`, `0` or `1` as this amount is less than, equal to or greater than `other`. */
+  cmp(other: AmountLike): -1 | 0 | 1 {
+    const o = this.operand(other);
+    return this.raw < o ? -1 : this.raw > o ? 1 : 0;
+  }
+
+  eq(other: AmountLike): boolean {
+    return this.cmp(other) === 0;
+  }
+
+  lt(other: AmountLike): boolean {
+    return this.cmp(other) < 0;
+  }
+
+  lte(other: AmountLike): boolean {
+    return this.cmp(other) <= 0;
+  }
+
+  gt(other: AmountLike): boolean {
+    return this.cmp(other) > 0;
+  }
+
+  gte(other: AmountLike): boolean {
+    return this.cmp(other) >= 0;
+  }
+
+  isZero(): boolean {
+    return this.raw === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.raw < 0n;
+  }
+
+  /** Raw smallest-unit integer string, as the raw-unit endpoints expect. */
+  toRaw(): string {
+    return this.raw.toString();
+  }
+
+  /** Human-readable decimal string with trailing zeros removed. */
+  toString(): string {
+    return formatUnits(this.raw, this.decimals);
+  }
+
+  /** Human-readable decimal string padded to exactly `decimals` places. */
+  toFixed(): string {
+    const s = this.toString();
+    if (this.decimals === 0) return s;
+    const [int, fraction = ''] = s.split('.');
+    return `${int}.${fraction.padEnd(this.decimals, '0')}`;
+  }
+
+  toJSON(): string {
+    return this.toString();
+  }
+
+  private with(raw: bigint): Amount {
+    return new Amount(raw, this.decimals, this.symbol);
+  }
+
+  /**
+   * Raw value of an operand at this amount's precision. Strings are
+   * human-readable decimals; bigints are raw units. Mixing precisions or
+   * assets is an error rather than a silent rescale.
+   */
+  private operand(other: AmountLike): bigint {
+    if (typeof other === 'bigint') return other;
+    if (typeof other === 'string') return parseUnits(other, this.decimals);
+    if (other.decimals !== this.decimals) {
+      throw new AmountError(
+        `Cannot combine amounts with ${this.decimals} and ${other.decimals} decimals; rescale first`
+      );
+    }
+    if (this.symbol && other.symbol && this.symbol !== other.symbol) {
+      throw new AmountError(`Cannot combine ${this.symbol} and ${other.symbol} amounts`);
+    }
+    return other.raw;
+  }
+}
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KlingEx } from './client';
+import type { CandleSeries } from './candleSeries';
+import type { OHLCV } from './types';
+import { fakeApi, json } from './testing/fakeApi';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+import type { FakeSocket } from './testing/fakeSocket';
+
+const market = { id: 1, base_asset_symbol: 'BTC', quote_asset_symbol: 'USDT' };
+const BASE = Date.parse('2026-01-01T00:00:00.000Z');
+const MINUTE = 60_000;
+
+const at = (minute: number) => new Date(BASE + minute * MINUTE).toISOString();
+
+function candle(minute: number, close: string): OHLCV {
+  return {
+    time_bucket: at(minute),
+    open_price: '100',
+    high_price: close,
+    low_price: '100',
+    close_price: close,
+    volume: '1',
+    number_of_trades: 1,
+  };
+}
+
+/**
+ * A client over a fake REST API and socket. `/api/ohlcv` serves `history`:
+ * the rows within `startDate`..`endDate` if given, else the newest `limit`.
+ */
+function exchange(history: OHLCV[]) {
+  let hold: Promise<void> | null = null;
+  let failing = false;
+  const api = fakeApi({
+    'GET /api/markets': [market],
+    'GET /api/assets': { assets: [] },
+    'GET /api/ohlcv': async ({ query }) => {
+      if (hold) await hold;
+      if (failing) return json(500, { error: 'down' });
+      if (query.startDate) {
+        const [from, to] = [Date.parse(query.startDate), Date.parse(query.endDate)];
+        return history.filter((c) => {
+          const time = Date.parse(c.time_bucket);
+          return time >= from && time <= to;
+        });
+      }
+      return history.slice(-Number(query.limit));
+    },
+  });
+  const { webSocketFactory, latest } = fakeSockets();
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch, webSocketFactory, retry: false });
+  return {
+    client,
+    latest,
+    queries: () => api.requests.filter((r) => r.path === '/api/ohlcv').map((r) => r.query),
+    /** Hold `/api/ohlcv` responses until the returned function is called. */
+    holdResponses: () => {
+      let release = () => {};
+      hold = new Promise((resolve) => (release = resolve));
+      return () => {
+        hold = null;
+        release();
+      };
+    },
+    fail: (value: boolean) => (failing = value),
+  };
+}
+
+function frame(socket: FakeSocket, fields: Partial<OHLCV>, timeframe = '1m', marketId = 1) {
+  socket.push({ type: 'ohlcv', market_id: marketId, timeframe, ...fields });
+}
+
+/** `candleClosed` and `candleUpdated` events as `[event, minute, close]`. */
+function events(series: CandleSeries): Array<[string, number, string | null]> {
+  const seen: Array<[string, number, string | null]> = [];
+  const minute = (c: OHLCV) => (Date.parse(c.time_bucket) - BASE) / MINUTE;
+  series.on('candleClosed', (c) => seen.push(['closed', minute(c), c.close_price]));
+  series.on('candleUpdated', (c) => seen.push(['updated', minute(c), c.close_price]));
+  return seen;
+}
+
+const closes = (series: CandleSeries) => series.candles().map((c) => c.close_price);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('CandleSeries', () => {
+  it('loads history and keeps the in-progress candle live', async () => {
+    const ex = exchange([candle(1, '101'), candle(0, '100')]);
+    const series = await ex.client.createCandleSeries('BTC-USDT', '1m', { limit: 10 });
+    expect(ex.queries()).toEqual([{ marketId: '1', timeframe: '1m', limit: '10' }]);
+    expect(series.ready).toBe(true);
+    expect(closes(series)).toEqual(['100', '101']);
+
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    expect(socket.actions('subscribe_ohlcv')).toEqual([
+      { action: 'subscribe_ohlcv', market_id: 1, timeframe: '1m' },
+    ]);
+    const seen = events(series);
+    frame(socket, { time_bucket: at(1), close_price: '103', high_price: '103' });
+    frame(socket, { time_bucket: at(1), close_price: '99' }, '5m');
+    frame(socket, { time_bucket: at(1), close_price: '99' }, '1m', 2);
+    expect(series.current).toEqual({ ...candle(1, '103'), high_price: '103' });
+
+    frame(socket, candle(2, '104'));
+    expect(seen).toEqual([
+      ['updated', 1, '103'],
+      ['closed', 1, '103'],
+      ['updated', 2, '104'],
+    ]);
+    expect(closes(series)).toEqual(['100', '103', '104']);
+  });
+
+  it('keeps only the newest `limit` candles', async () => {
+    const ex = exchange([candle(0, '100'), candle(1, '101')]);
+    const series = await ex.client.createCandleSeries('BTC-USDT', '1m', { limit: 2 });
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    frame(socket, candle(2, '102'));
+    expect(closes(series)).toEqual(['101', '102']);
+    expect(series.candles(1)).toEqual([candle(2, '102')]);
+  });
+
+  it('replays frames that arrive while history loads', async () => {
+    const ex = exchange([candle(0, '100')]);
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const release = ex.holdResponses();
+    const creating = ex.client.createCandleSeries('BTC-USDT', '1m');
+    await vi.waitFor(() => expect(ex.queries()).toHaveLength(1));
+
+    frame(socket, { time_bucket: at(0), close_price: '105' });
+    frame(socket, candle(1, '106'));
+    release();
+    const series = await creating;
+    expect(closes(series)).toEqual(['105', '106']);
+  });
+
+  it('fills the gap after a reconnect, paging up to now', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(BASE + 30_000);
+    const history = [candle(-2, '98'), candle(-1, '99'), candle(0, '100')];
+    const ex = exchange(history);
+    const series = await ex.client.createCandleSeries('BTC-USDT', '1m', { limit: 3 });
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const seen = events(series);
+
+    socket.drop();
+    history[2] = candle(0, '101');
+    history.push(candle(1, '102'), candle(2, '103'), candle(3, '104'), candle(4, '105'));
+    vi.setSystemTime(BASE + 4 * MINUTE + 30_000);
+    await vi.advanceTimersByTimeAsync(5000);
+    ex.latest().open();
+    ex.latest().authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(ex.queries().slice(1)).toEqual([
+      { marketId: '1', timeframe: '1m', limit: '3', startDate: at(0), endDate: at(3) },
+      { marketId: '1', timeframe: '1m', limit: '3', startDate: at(3), endDate: at(6) },
+    ]);
+    expect(seen).toEqual([
+      ['updated', 0, '101'],
+      ['closed', 0, '101'],
+      ['updated', 1, '102'],
+      ['closed', 1, '102'],
+      ['updated', 2, '103'],
+      ['closed', 2, '103'],
+      ['updated', 3, '104'],
+      ['closed', 3, '104'],
+      ['updated', 4, '105'],
+    ]);
+    expect(closes(series)).toEqual(['103', '104', '105']);
+  });
+
+  it('reports a failed refresh as error and keeps its candles', async () => {
+    const ex = exchange([candle(0, '100')]);
+    const series = await ex.client.createCandleSeries('BTC-USDT', '1m');
+    const errors: Error[] = [];
+    series.on('error', (err) => errors.push(err));
+
+    ex.fail(true);
+    await series.refresh();
+    expect(errors).toHaveLength(1);
+    expect(errors[0].message).toBe('down');
+    expect(closes(series)).toEqual(['100']);
+  });
+});
@@ -0,0 +1,290 @@
+import { TypedEmitter } from './emitter';
+import type { MarketsEndpoint } from './endpoints/markets';
+import type { KlingExWebSocket } from './websocket';
+import type { OHLCV, Timeframe, WsOhlcvUpdate } from './types';
+
+export interface CandleSeriesOptions {
+  /** Candles loaded from REST and kept in memory, newest last (default: 500). */
+  limit?: number;
+}
+
+export interface CandleSeriesEvents {
+  /**
+   * A candle changed: normally the in-progress one, or a new one started.
+   * A closed candle only fires this when REST corrects it after a gap fill.
+   */
+  candleUpdated: [candle: OHLCV];
+  /** A candle is final because a later one started. */
+  candleClosed: [candle: OHLCV];
+  /** Loading or a gap fill from REST failed. */
+  error: [error: Error];
+}
+
+const DEFAULT_LIMIT = 500;
+
+const MINUTE = 60_000;
+const TIMEFRAME_MS: Record<Timeframe, number> = {
+  '1m': MINUTE,
+  '5m': 5 * MINUTE,
+  '15m': 15 * MINUTE,
+  '30m': 30 * MINUTE,
+  '1h': 60 * MINUTE,
+  '4h': 240 * MINUTE,
+  '1d': 1440 * MINUTE,
+  '1w': 10080 * MINUTE,
+};
+
+function bucketTime(candle: Pick<OHLCV, 'time_bucket'>): number {
+  return Date.parse(candle.time_bucket);
+}
+
+function field<T>(value: T | undefined, fallback: T | undefined): T | null {
+  return value !== undefined ? value : (fallback ?? null);
+}
+
+/** Candle from a frame, keeping `previous` values for fields the frame omits. */
+function fromFrame(frame: WsOhlcvUpdate & { time_bucket: string }, previous?: OHLCV): OHLCV {
+  return {
+    time_bucket: frame.time_bucket,
+    open_price: field(frame.open_price, previous?.open_price),
+    high_price: field(frame.high_price, previous?.high_price),
+    low_price: field(frame.low_price, previous?.low_price),
+    close_price: field(frame.close_price, previous?.close_price),
+    volume: field(frame.volume, previous?.volume),
+    number_of_trades: field(frame.number_of_trades, previous?.number_of_trades),
+  };
+}
+
+function sameCandle(a: OHLCV, b: OHLCV): boolean {
+  return (
+    a.open_price === b.open_price &&
+    a.high_price === b.high_price &&
+    a.low_price === b.low_price &&
+    a.close_price === b.close_price &&
+    a.volume === b.volume &&
+    a.number_of_trades === b.number_of_trades
+  );
+}
+
+/**
+ * OHLCV candles for one market and timeframe, kept live from the WebSocket
+ * `ohlcv` channel. Loads history from `markets.ohlcv()`, updates the newest
+ * (in-progress) candle from each frame and appends a new one when a later
+ * bucket starts, closing the previous. After a reconnect it refetches from
+ * the in-progress candle onward, paging through outages longer than
+ * `limit` candles, so candles missed while disconnected are filled in and
+ * announced as if they had arrived live.
+ *
+ * A candle closes when the first frame (or REST row) of a later bucket
+ * arrives; a market with no trades sends none, so its last candle stays
+ * open until then. Frames that arrive during a REST fetch are replayed on
+ * top of it.
+ *
+ * @example
+ * const series = await client.createCandleSeries('BTC-USDT', '1m');
+ * chart.setData(series.candles());
+ * series.on('candleUpdated', (c) => chart.update(c));
+ * series.on('candleClosed', (c) => strategy.onBar(c));
+ * await client.ws.connect();
+ */
+export class CandleSeries extends TypedEmitter<CandleSeriesEvents> {
+  /** Candles by bucket start (epoch ms). */
+  private byTime = new Map<number, OHLCV>();
+  private sorted: OHLCV[] | null = null;
+  /** Bucket start of the in-progress candle. */
+  private currentTime: number | undefined;
+  /** Non-null while a REST fetch is in flight. */
+  private buffer: WsOhlcvUpdate[] | null = null;
+  private filling: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private offReconnect: (() => void) | null = null;
+  private limit: number;
+  private _ready = false;
+
+  /**
+   * @param marketId - Trading pair ID, used for both REST and the channel.
+   */
+  constructor(
+    private ws: KlingExWebSocket,
+    private markets: MarketsEndpoint,
+    readonly marketId: number,
+    readonly timeframe: Timeframe,
+    options: CandleSeriesOptions = {}
+  ) {
+    super();
+    this.limit = Math.max(1, options.limit ?? DEFAULT_LIMIT);
+  }
+
+  /**
+   * Subscribe to the channel and load history from REST. Live candles start
+   * flowing once the WebSocket is connected.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.ws.subscribeOhlcv(this.marketId, this.timeframe, (frame) =>
+      this.onFrame(frame)
+    );
+    this.offReconnect = this.ws.onReconnect(() => {
+      void this.refresh();
+    });
+    try {
+      await this.load();
+    } catch (err) {
+      this.stop();
+      throw err;
+    }
+  }
+
+  /** Unsubscribe. The loaded candles stay readable. */
+  stop(): void {
+    this.unsubscribe?.();
+    this.offReconnect?.();
+    this.unsubscribe = null;
+    this.offReconnect = null;
+    this.buffer = null;
+  }
+
+  /**
+   * Refetch from the in-progress candle up to now, `limit` candles per
+   * request (or all history, if none is loaded yet), and apply what
+   * changed. Runs automatically after each reconnect; concurrent calls
+   * share one pass. Failures are emitted as `error`.
+   */
+  refresh(): Promise<void> {
+    if (!this.filling) {
+      this.filling = this.load(this.currentTime)
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        })
+        .finally(() => {
+          this.filling = null;
+        });
+    }
+    return this.filling;
+  }
+
+  /** True once history has been loaded. */
+  get ready(): boolean {
+    return this._ready;
+  }
+
+  /** Candles oldest first (the last may be in progress), or only the newest `count`. */
+  candles(count?: number): OHLCV[] {
+    this.sorted ??= [...this.byTime]
+      .sort(([a], [b]) => a - b)
+      .map(([, candle]) => candle);
+    return count === undefined ? this.sorted.slice() : this.sorted.slice(-count);
+  }
+
+  /** The newest candle, still in progress. */
+  get current(): OHLCV | undefined {
+    return this.currentTime === undefined ? undefined : this.byTime.get(this.currentTime);
+  }
+
+  /**
+   * Fetch from REST. Without `since`, replace everything silently (initial
+   * load); with it, merge rows from that bucket onward and emit events.
+   */
+  private async load(since?: number): Promise<void> {
+    this.buffer = [];
+    let rows: OHLCV[];
+    try {
+      rows =
+        since === undefined
+          ? await this.markets.ohlcv(this.marketId, this.timeframe, { limit: this.limit })
+          : await this.fetchSince(since);
+    } catch (err) {
+      this.buffer = null;
+      throw err;
+    }
+    const buffered = this.buffer ?? [];
+    this.buffer = null;
+
+    const ordered = rows
+      .filter((row) => !Number.isNaN(bucketTime(row)))
+      .sort((a, b) => bucketTime(a) - bucketTime(b));
+    if (since === undefined || this.currentTime === undefined) {
+      this.byTime.clear();
+      this.sorted = null;
+      for (const row of ordered) this.byTime.set(bucketTime(row), row);
+      this.currentTime = ordered.length > 0 ? bucketTime(ordered[ordered.length - 1]) : undefined;
+      this.trim();
+    } else {
+      for (const row of ordered) this.upsert(row);
+    }
+    for (const frame of buffered) {
+      this.apply(frame);
+    }
+    this._ready = true;
+  }
+
+  /** Rows from `since` to now, in windows of at most `limit` buckets. */
+  private async fetchSince(since: number): Promise<OHLCV[]> {
+    const window = TIMEFRAME_MS[this.timeframe] * this.limit;
+    const rows: OHLCV[] = [];
+    let start = since;
+    do {
+      const page = await this.markets.ohlcv(this.marketId, this.timeframe, {
+        startDate: new Date(start).toISOString(),
+        endDate: new Date(start + window).toISOString(),
+        limit: this.limit,
+      });
+      rows.push(...page);
+      start += window;
+    } while (start <= Date.now());
+    return rows;
+  }
+
+  private onFrame(frame: WsOhlcvUpdate): void {
+    if (this.buffer) {
+      this.buffer.push(frame);
+      return;
+    }
+    if (!this._ready) return;
+    this.apply(frame);
+  }
+
+  private apply(frame: WsOhlcvUpdate): void {
+    const timeBucket = frame.time_bucket;
+    if (!timeBucket) return;
+    const time = Date.parse(timeBucket);
+    if (Number.isNaN(time)) return;
+    this.upsert(fromFrame({ ...frame, time_bucket: timeBucket }, this.byTime.get(time)));
+  }
+
+  /** Store `candle`, closing the in-progress one if `candle` starts a later bucket. */
+  private upsert(candle: OHLCV): void {
+    const time = bucketTime(candle);
+    const existing = this.byTime.get(time);
+    const current = this.currentTime;
+    const later = current === undefined || time > current;
+    if (!later && existing && sameCandle(existing, candle)) return;
+    // Older than anything kept at full size: `trim()` would drop it again.
+    if (!existing && !later && this.byTime.size >= this.limit && time < this.oldestTime()) return;
+
+    this.byTime.set(time, candle);
+    this.sorted = null;
+    if (later) {
+      const closed = current === undefined ? undefined : this.byTime.get(current);
+      this.currentTime = time;
+      this.trim();
+      if (closed) this.emit('candleClosed', closed);
+    }
+    this.emit('candleUpdated', candle);
+  }
+
+  private oldestTime(): number {
+    const [oldest] = this.candles();
+    return oldest ? bucketTime(oldest) : Infinity;
+  }
+
+  /** Drop the oldest candles beyond `limit`. */
+  private trim(): void {
+    const excess = this.byTime.size - this.limit;
+    if (excess <= 0) return;
+    for (const candle of this.candles().slice(0, excess)) {
+      this.byTime.delete(bucketTime(candle));
+    }
+    this.sorted = null;
+  }
+}
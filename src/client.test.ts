@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { KlingEx } from './client';
+import { fakeApi } from './testing/fakeApi';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+
+describe('KlingEx.setApiKey', () => {
+  function exchange() {
+    const api = fakeApi({ 'GET /api/markets': [] });
+    const { webSocketFactory, sockets, latest } = fakeSockets();
+    const client = new KlingEx({ apiKey: 'key-1', fetch: api.fetch, webSocketFactory });
+    return { client, api, sockets, latest };
+  }
+
+  it('switches REST calls and every live socket to the new key', async () => {
+    const { client, api, sockets, latest } = exchange();
+    await connectFake(client.ws, latest);
+    await connectFake(client.createWebSocket(), latest);
+
+    client.setApiKey('key-2');
+    await client.markets.list();
+    expect(api.requests[0].headers['X-API-Key']).toBe('key-2');
+    expect(sockets.map((s) => s.readyState)).toEqual([3, 3, 0, 0]);
+    for (const socket of sockets.slice(2)) {
+      socket.open();
+      expect(socket.sent).toEqual([{ type: 'auth', apiKey: 'key-2' }]);
+      socket.authenticate();
+    }
+  });
+
+  it('gives a socket that reconnects after closing the current key', async () => {
+    const { client, latest } = exchange();
+    const own = client.createWebSocket();
+    await connectFake(own, latest);
+    own.disconnect();
+
+    client.setApiKey('key-2');
+    const socket = await connectFake(own, latest);
+    expect(socket.sent[0]).toEqual({ type: 'auth', apiKey: 'key-2' });
+  });
+});
@@ -9,11 +9,23 @@ import { WithdrawalsEndpoint } from './endpoints/withdrawals';
 import { PoolsEndpoint } from './endpoints/pools';
 import { MiningPoolEndpoint } from './endpoints/miningPool';
 import { GiftCodesEndpoint } from './endpoints/giftCodes';
-import type { KlingExConfig, WebSocketOptions } from './types';
+import { MarketRegistry } from './registry';
+import type { MarketRef } from './registry';
+import { LocalOrderBook } from './localOrderBook';
+import { OrderTracker } from './orderTracker';
+import { CandleSeries } from './candleSeries';
+import type { CandleSeriesOptions } from './candleSeries';
+import type { KlingExConfig, Timeframe, WebSocketOptions } from './types';
 
 const DEFAULT_BASE_URL = 'https://api.klingex.io';
 const DEFAULT_WS_URL = 'wss://ws.klingex.io/ws';
 const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_REGISTRY_TTL = 5 * 60 * 1000;
+
+/** Client config with defaults applied; opt-in features stay optional. */
+type OptionalKeys = 'rateLimit' | 'fetch' | 'webSocketFactory' | 'onSchemaMismatch';
+type ResolvedConfig = Required<Omit<KlingExConfig, OptionalKeys>> &
+  Pick<KlingExConfig, OptionalKeys>;
 
 /**
  * KlingEx API Client.
@@ -37,10 +49,14 @@ const DEFAULT_TIMEOUT = 30000;
 export class KlingEx {
   private http: HttpClient;
   private _ws: KlingExWebSocket | null = null;
-  private config: Required<KlingExConfig>;
+  /** Sockets from `ws` / `createWebSocket` that are connected or connecting. */
+  private liveSockets = new Set<KlingExWebSocket>();
+  private config: ResolvedConfig;
 
   /** Market data endpoints (public). */
   public readonly markets: MarketsEndpoint;
+  /** Cached market/asset metadata with symbol resolution. */
+  public readonly registry: MarketRegistry;
   /** Order management endpoints. */
   public readonly orders: OrdersEndpoint;
   /** Wallet/balance endpoints. */
@@ -68,23 +84,38 @@ export class KlingEx {
       wsUrl: config.wsUrl || DEFAULT_WS_URL,
       timeout: config.timeout || DEFAULT_TIMEOUT,
       humanReadable: config.humanReadable ?? true,
+      retry: config.retry ?? {},
+      rateLimit: config.rateLimit,
+      middleware: config.middleware ?? [],
+      fetch: config.fetch,
+      webSocketFactory: config.webSocketFactory,
+      validation: config.validation ?? 'off',
+      onSchemaMismatch: config.onSchemaMismatch,
+      registryTtl: config.registryTtl ?? DEFAULT_REGISTRY_TTL,
     };
 
     this.http = new HttpClient({
       baseUrl: this.config.baseUrl,
       apiKey: this.config.apiKey,
       timeout: this.config.timeout,
+      retry: this.config.retry,
+      rateLimit: this.config.rateLimit,
+      middleware: this.config.middleware,
+      fetch: this.config.fetch,
+      validation: this.config.validation,
+      onSchemaMismatch: this.config.onSchemaMismatch,
     });
 
     this.markets = new MarketsEndpoint(this.http);
-    this.orders = new OrdersEndpoint(this.http, this.config.humanReadable);
+    this.registry = new MarketRegistry(this.markets, { ttl: this.config.registryTtl });
+    this.orders = new OrdersEndpoint(this.http, this.config.humanReadable, this.registry);
     this.wallet = new WalletEndpoint(this.http);
     this.wallets = new WalletsEndpoint(this.http);
     this.invoices = new InvoicesEndpoint(this.http);
-    this.withdrawals = new WithdrawalsEndpoint(this.http);
+    this.withdrawals = new WithdrawalsEndpoint(this.http, this.registry);
     this.pools = new PoolsEndpoint(this.http);
     this.miningPool = new MiningPoolEndpoint(this.http);
-    this.giftCodes = new GiftCodesEndpoint(this.http);
+    this.giftCodes = new GiftCodesEndpoint(this.http, this.registry);
   }
 
   /**
@@ -94,7 +125,13 @@ export class KlingEx {
    */
   get ws(): KlingExWebSocket {
     if (!this._ws) {
-      this._ws = new KlingExWebSocket(this.config.wsUrl, { apiKey: this.config.apiKey });
+      this._ws = this.trackSocket(
+        new KlingExWebSocket(
+          this.config.wsUrl,
+          { apiKey: this.config.apiKey },
+          { webSocketFactory: this.config.webSocketFactory }
+        )
+      );
     }
     return this._ws;
   }
@@ -105,17 +142,69 @@ export class KlingEx {
    * `client.ws`.
    */
   createWebSocket(options?: WebSocketOptions): KlingExWebSocket {
-    return new KlingExWebSocket(
-      this.config.wsUrl,
-      { apiKey: this.config.apiKey },
-      options
+    return this.trackSocket(
+      new KlingExWebSocket(
+        this.config.wsUrl,
+        { apiKey: this.config.apiKey },
+        {
+          ...options,
+          webSocketFactory: options?.webSocketFactory ?? this.config.webSocketFactory,
+        }
+      )
+    );
+  }
+
+  /**
+   * Create and start a {@link LocalOrderBook} for `market` on `client.ws`.
+   * The market may be given as `"BTC-USDT"`, `"BTC/USDT"`, `"BTC_USDT"` or
+   * its ID. Resolves once the REST snapshot is loaded; live updates flow
+   * after `client.ws.connect()`.
+   */
+  async createOrderBook(market: MarketRef): Promise<LocalOrderBook> {
+    const m = await this.registry.market(market);
+    const book = new LocalOrderBook(
+      this.ws,
+      this.markets,
+      `${m.base_asset_symbol}-${m.quote_asset_symbol}`,
+      m.id
     );
+    await book.start();
+    return book;
+  }
+
+  /**
+   * Create and start an {@link OrderTracker} on `client.ws` and
+   * `client.orders`. Resolves once open orders are loaded from REST; live
+   * updates flow after `client.ws.connect()` (the `read` scope is needed).
+   */
+  async createOrderTracker(): Promise<OrderTracker> {
+    const tracker = new OrderTracker(this.orders, this.ws);
+    await tracker.start();
+    return tracker;
+  }
+
+  /**
+   * Create and start a {@link CandleSeries} for `market` and `timeframe` on
+   * `client.ws`. Resolves once history is loaded from REST; live candles
+   * flow after `client.ws.connect()`.
+   */
+  async createCandleSeries(
+    market: MarketRef,
+    timeframe: Timeframe,
+    options?: CandleSeriesOptions
+  ): Promise<CandleSeries> {
+    const m = await this.registry.market(market);
+    const series = new CandleSeries(this.ws, this.markets, m.id, timeframe, options);
+    await series.start();
+    return series;
   }
 
   /**
    * Rotate the API key in place (e.g. after the user generates a new key).
-   * Existing WebSocket connections are not re-authenticated — disconnect and
-   * reconnect if you need the new key to apply to streaming data.
+   * `client.ws` and every socket from `createWebSocket` switch too: live
+   * connections re-authenticate through a reconnect (see
+   * `KlingExWebSocket.setApiKey`), others use the new key when they connect.
+   * A rejected key surfaces on each socket as `error` and `close` events.
    */
   setApiKey(apiKey: string): void {
     if (!apiKey) {
@@ -123,6 +212,30 @@ export class KlingEx {
     }
     this.config.apiKey = apiKey;
     this.http.setApiKey(apiKey);
+    for (const socket of this.liveSockets) {
+      socket.setApiKey(apiKey).catch(() => {
+        /* surfaced via the socket's error/close events */
+      });
+    }
+  }
+
+  /**
+   * Keep `socket` in `liveSockets` while it's in use, so `setApiKey` can
+   * reach it without holding on to sockets that were closed and dropped.
+   * One coming back from `closed` catches up on any rotation it missed.
+   */
+  private trackSocket(socket: KlingExWebSocket): KlingExWebSocket {
+    socket.on('stateChange', (state) => {
+      if (state === 'closed') {
+        this.liveSockets.delete(socket);
+      } else if (!this.liveSockets.has(socket)) {
+        this.liveSockets.add(socket);
+        socket.setApiKey(this.config.apiKey).catch(() => {
+          /* surfaced via the socket's error/close events */
+        });
+      }
+    });
+    return socket;
   }
 
   /** Always true for this SDK — `apiKey` is mandatory at construction time. */
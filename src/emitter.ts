@@ -0,0 +1,46 @@
+type Listener = (...args: unknown[]) => void;
+
+/**
+ * Minimal typed event emitter. `Events` maps each event name to its
+ * listener argument tuple, e.g. `{ change: [book: LocalOrderBook] }`.
+ */
+export class TypedEmitter<Events extends { [K in keyof Events]: unknown[] }> {
+  private listeners = new Map<keyof Events, Set<Listener>>();
+
+  /** Add a listener. Returns a function that removes it. */
+  on<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): () => void {
+    let set = this.listeners.get(event);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(event, set);
+    }
+    set.add(listener as Listener);
+    return () => this.off(event, listener);
+  }
+
+  /** Add a listener that is removed after its first call. */
+  once<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): () => void {
+    const off = this.on(event, (...args) => {
+      off();
+      listener(...args);
+    });
+    return off;
+  }
+
+  off<K extends keyof Events>(event: K, listener: (...args: Events[K]) => void): void {
+    this.listeners.get(event)?.delete(listener as Listener);
+  }
+
+  /** Number of listeners currently registered for `event`. */
+  listenerCount(event: keyof Events): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  protected emit<K extends keyof Events>(event: K, ...args: Events[K]): void {
+    const set = this.listeners.get(event);
+    if (!set) return;
+    for (const listener of [...set]) {
+      listener(...args);
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { KlingEx } from '../client';
+import { ValidationError } from '../types';
+import { fakeApi } from '../testing/fakeApi';
+
+describe('GiftCodesEndpoint human units', () => {
+  const api = fakeApi({
+    'GET /api/markets': [],
+    'GET /api/assets': { assets: [{ id: 7, symbol: 'USDT', name: 'Tether', decimals: 6 }] },
+    'POST /api/gift-codes': { gift_code_id: 'g-1' },
+    'POST /api/gift-codes/bulk': { codes: [] },
+  });
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch });
+
+  it('converts create and createBulk amounts through the registry', async () => {
+    await client.giftCodes.create({ assetId: 7, amount: '12.5', units: 'human' });
+    await client.giftCodes.createBulk({
+      assetId: 7,
+      amountPerCode: '1',
+      count: 3,
+      units: 'human',
+    });
+    const bodies = api.requests.filter((r) => r.method === 'POST').map((r) => r.body);
+    expect(bodies).toMatchObject([{ amount: '12500000' }, { amount_per_code: '1000000' }]);
+    // Both conversions share one registry load.
+    expect(api.requests.filter((r) => r.path === '/api/assets')).toHaveLength(1);
+  });
+
+  it('names the offending field for non-positive amounts', async () => {
+    await expect(
+      client.giftCodes.createBulk({ assetId: 7, amountPerCode: '0', count: 2, units: 'human' })
+    ).rejects.toThrow(new ValidationError('amountPerCode must be positive, got "0"'));
+  });
+});
@@ -1,4 +1,8 @@
 import { HttpClient } from '../http';
+import { parsePositiveUnits } from '../amount';
+import { MarketsEndpoint } from './markets';
+import { MarketRegistry } from '../registry';
+import type { AmountUnits, CallOptions } from '../types';
 
 export interface CreateGiftCodeParams {
   /** Asset ID to fund the gift code with. */
@@ -8,6 +12,8 @@ export interface CreateGiftCodeParams {
    * validates the amount as a BigInt-string against the asset's decimals.
    */
   amount: string;
+  /** Units `amount` is given in. Defaults to `'raw'`. */
+  units?: AmountUnits;
   /** Optional gift message (max 500 chars). */
   message?: string;
   /** Hide the amount from the redeemer's preview until they redeem. */
@@ -22,6 +28,8 @@ export interface BulkCreateGiftCodeParams {
   assetId: number;
   /** Amount per code in raw base units. */
   amountPerCode: string;
+  /** Units `amountPerCode` is given in. Defaults to `'raw'`. */
+  units?: AmountUnits;
   /** Number of codes to mint (2..100). */
   count: number;
   message?: string;
@@ -62,34 +70,81 @@ export interface BulkCreateGiftCodeResponse {
  * not surfaced in the SDK.
  */
 export class GiftCodesEndpoint {
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private registry: MarketRegistry = new MarketRegistry(new MarketsEndpoint(http))
+  ) {}
 
   /**
    * Create a single gift code funded from the caller's wallet.
+   *
+   * @example
+   * await client.giftCodes.create({ assetId: 1, amount: '0.001', units: 'human' });
    */
-  async create(params: CreateGiftCodeParams): Promise<CreateGiftCodeResponse> {
-    return this.http.post<CreateGiftCodeResponse>('/api/gift-codes', {
-      asset_id: params.assetId,
-      amount: params.amount,
-      message: params.message,
-      hide_amount: params.hideAmount ?? false,
-      expires_in_days: params.expiresInDays,
-      two_factor_code: params.twoFactorCode,
-    });
+  async create(
+    params: CreateGiftCodeParams,
+    options?: CallOptions
+  ): Promise<CreateGiftCodeResponse> {
+    const amount = await this.toRaw(
+      params.amount,
+      'amount',
+      params.assetId,
+      params.units,
+      options
+    );
+    return this.http.post<CreateGiftCodeResponse>(
+      '/api/gift-codes',
+      {
+        asset_id: params.assetId,
+        amount,
+        message: params.message,
+        hide_amount: params.hideAmount ?? false,
+        expires_in_days: params.expiresInDays,
+        two_factor_code: params.twoFactorCode,
+      },
+      options
+    );
   }
 
   /**
    * Create N gift codes of the same denomination in one batched call.
    */
-  async createBulk(params: BulkCreateGiftCodeParams): Promise<BulkCreateGiftCodeResponse> {
-    return this.http.post<BulkCreateGiftCodeResponse>('/api/gift-codes/bulk', {
-      asset_id: params.assetId,
-      amount_per_code: params.amountPerCode,
-      count: params.count,
-      message: params.message,
-      hide_amount: params.hideAmount ?? false,
-      expires_in_days: params.expiresInDays,
-      two_factor_code: params.twoFactorCode,
-    });
+  async createBulk(
+    params: BulkCreateGiftCodeParams,
+    options?: CallOptions
+  ): Promise<BulkCreateGiftCodeResponse> {
+    const amountPerCode = await this.toRaw(
+      params.amountPerCode,
+      'amountPerCode',
+      params.assetId,
+      params.units,
+      options
+    );
+    return this.http.post<BulkCreateGiftCodeResponse>(
+      '/api/gift-codes/bulk',
+      {
+        asset_id: params.assetId,
+        amount_per_code: amountPerCode,
+        count: params.count,
+        message: params.message,
+        hide_amount: params.hideAmount ?? false,
+        expires_in_days: params.expiresInDays,
+        two_factor_code: params.twoFactorCode,
+      },
+      options
+    );
+  }
+
+  /** Convert a human amount to raw units, rejecting zero and negative values. */
+  private async toRaw(
+    amount: string,
+    field: string,
+    assetId: number,
+    units: AmountUnits | undefined,
+    options?: CallOptions
+  ): Promise<string> {
+    if (units !== 'human') return amount;
+    const asset = await this.registry.asset(assetId, options);
+    return parsePositiveUnits(amount, asset.decimals, field).toString();
   }
 }
@@ -1,5 +1,7 @@
 import { HttpClient } from '../http';
+import * as schemas from '../schemas';
 import type {
+  CallOptions,
   Invoice,
   InvoiceListParams,
   InvoiceListResponse,
@@ -38,7 +40,7 @@ export class InvoicesEndpoint {
    *   console.log(`Pay ${opt.expected_amount} ${opt.symbol} to ${opt.address}`);
    * }
    */
-  async create(params: CreateInvoiceParams): Promise<Invoice> {
+  async create(params: CreateInvoiceParams, options?: CallOptions): Promise<Invoice> {
     const response = await this.http.post<{ message?: string; data: Invoice }>(
       '/api/invoices',
       {
@@ -50,7 +52,8 @@ export class InvoicesEndpoint {
         metadata: params.metadata,
         buyer_email: params.buyer_email,
         payment_tolerance: params.payment_tolerance,
-      }
+      },
+      { ...options, schema: schemas.invoice }
     );
     if (!response?.data) {
       throw new Error('Invoice creation returned no data');
@@ -61,30 +64,40 @@ export class InvoicesEndpoint {
   /**
    * List your merchant's invoices (paginated).
    */
-  async list(params: InvoiceListParams = {}): Promise<InvoiceListResponse> {
-    const response = await this.http.get<{ data: InvoiceListResponse }>('/api/invoices', {
-      status: params.status,
-      external_id: params.external_id,
-      page: params.page,
-      page_size: params.page_size,
-    });
+  async list(params: InvoiceListParams = {}, options?: CallOptions): Promise<InvoiceListResponse> {
+    const response = await this.http.get<{ data: InvoiceListResponse }>(
+      '/api/invoices',
+      {
+        status: params.status,
+        external_id: params.external_id,
+        page: params.page,
+        page_size: params.page_size,
+      },
+      { ...options, schema: schemas.invoiceList }
+    );
     return response.data;
   }
 
   /**
    * Get a single invoice (full detail, including payment options + payments).
    */
-  async get(invoiceId: string): Promise<Invoice> {
-    const response = await this.http.get<{ data: Invoice }>(`/api/invoices/${invoiceId}`);
+  async get(invoiceId: string, options?: CallOptions): Promise<Invoice> {
+    const response = await this.http.get<{ data: Invoice }>(
+      `/api/invoices/${invoiceId}`,
+      undefined,
+      { ...options, schema: schemas.invoice }
+    );
     return response.data;
   }
 
   /**
    * Lightweight status poll for an invoice. Public endpoint (no auth needed).
    */
-  async status(invoiceId: string): Promise<InvoiceStatusResponse> {
+  async status(invoiceId: string, options?: CallOptions): Promise<InvoiceStatusResponse> {
     const response = await this.http.get<{ data: InvoiceStatusResponse }>(
-      `/api/invoices/${invoiceId}/status`
+      `/api/invoices/${invoiceId}/status`,
+      undefined,
+      { ...options, schema: schemas.invoiceStatusResponse }
     );
     return response.data;
   }
@@ -92,15 +105,19 @@ export class InvoicesEndpoint {
   /**
    * Cancel a pending invoice. Sends `POST /api/invoices/:id/cancel`.
    */
-  async cancel(invoiceId: string): Promise<{ message: string }> {
-    return this.http.post<{ message: string }>(`/api/invoices/${invoiceId}/cancel`);
+  async cancel(invoiceId: string, options?: CallOptions): Promise<{ message: string }> {
+    return this.http.post<{ message: string }>(
+      `/api/invoices/${invoiceId}/cancel`,
+      undefined,
+      { ...options, schema: schemas.invoiceCancel }
+    );
   }
 
   /**
    * Get the invoice receipt as a PDF blob.
    */
-  async getPdf(invoiceId: string): Promise<Blob> {
-    return this.http.get<Blob>(`/api/invoices/${invoiceId}/pdf`);
+  async getPdf(invoiceId: string, options?: CallOptions): Promise<Blob> {
+    return this.http.get<Blob>(`/api/invoices/${invoiceId}/pdf`, undefined, options);
   }
 
   /**
@@ -109,8 +126,12 @@ export class InvoicesEndpoint {
    * Note: this returns *collected fee totals* across all invoices — it is not
    * a per-invoice or per-asset fee estimate.
    */
-  async feeStats(): Promise<InvoiceFeeStats> {
-    const response = await this.http.get<{ data: InvoiceFeeStats }>('/api/invoices/fees');
+  async feeStats(options?: CallOptions): Promise<InvoiceFeeStats> {
+    const response = await this.http.get<{ data: InvoiceFeeStats }>(
+      '/api/invoices/fees',
+      undefined,
+      { ...options, schema: schemas.invoiceFeeStats }
+    );
     return response.data;
   }
 
@@ -118,9 +139,11 @@ export class InvoicesEndpoint {
    * Get the public payment-page payload for an invoice (no auth required).
    * Use this to render a hosted payment page for the invoice buyer.
    */
-  async paymentPage(invoiceId: string): Promise<PublicInvoice> {
+  async paymentPage(invoiceId: string, options?: CallOptions): Promise<PublicInvoice> {
     const response = await this.http.get<{ data: PublicInvoice }>(
-      `/api/invoices/${invoiceId}/pay`
+      `/api/invoices/${invoiceId}/pay`,
+      undefined,
+      { ...options, schema: schemas.publicInvoice }
     );
     return response.data;
   }
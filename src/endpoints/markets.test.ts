@@ -0,0 +1,46 @@
+import { describe, expect, it, vi } from 'vitest';
+import { KlingEx } from '../client';
+
+function clientWith(fetch: typeof globalThis.fetch): KlingEx {
+  return new KlingEx({ apiKey: 'key', baseUrl: 'https://api.example.test', fetch, retry: false });
+}
+
+/** Never answers; rejects like `fetch` does once its signal aborts. */
+function unanswered(_url: string | URL | Request, init?: RequestInit): Promise<Response> {
+  return new Promise((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => {
+      reject(new DOMException('The operation was aborted.', 'AbortError'));
+    });
+  });
+}
+
+describe('MarketsEndpoint call options', () => {
+  it('sends per-call headers alongside the API key', async () => {
+    const fetch = vi.fn(
+      async (_url: string | URL | Request, _init?: RequestInit) =>
+        new Response(JSON.stringify({ id: 1, symbol: 'BTC', decimals: 8 }), {
+          headers: { 'content-type': 'application/json' },
+        })
+    );
+    await clientWith(fetch).markets.assetInfo('BTC', { headers: { 'X-Request-Tag': 'ui' } });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://api.example.test/api/asset-info/symbol/BTC');
+    expect(init?.headers).toMatchObject({ 'X-Request-Tag': 'ui', 'X-API-Key': 'key' });
+  });
+
+  it('aborts an in-flight call through its signal', async () => {
+    const fetch = vi.fn(unanswered);
+    const controller = new AbortController();
+    const book = clientWith(fetch).markets.orderbook(1, { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalled());
+    controller.abort();
+    await expect(book).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('times out per call', async () => {
+    const fetch = vi.fn(unanswered);
+    await expect(clientWith(fetch).markets.tickers({ timeout: 20 })).rejects.toMatchObject({
+      code: 'TIMEOUT',
+    });
+  });
+});
@@ -1,5 +1,8 @@
 import { HttpClient } from '../http';
+import * as schemas from '../schemas';
+import { AmountError } from '../types';
 import type {
+  CallOptions,
   Market,
   MarketInfo,
   MarketSparklinesResponse,
@@ -8,6 +11,7 @@ import type {
   OrderbookRaw,
   OHLCV,
   Timeframe,
+  PublicTrade,
   Asset,
   AssetInfo,
   AssetsResponse,
@@ -19,23 +23,33 @@ export class MarketsEndpoint {
   /**
    * Get all trading pairs.
    */
-  async list(): Promise<Market[]> {
-    return this.http.get<Market[]>('/api/markets');
+  async list(options?: CallOptions): Promise<Market[]> {
+    return this.http.get<Market[]>(
+      '/api/markets',
+      undefined,
+      { ...options, schema: schemas.marketList }
+    );
   }
 
   /**
-   * Get a specific market by ID.
+   * Get a specific market by ID. Downloads the full list on every call;
+   * use `client.registry` for cached lookups.
    */
-  async get(marketId: number): Promise<Market | undefined> {
-    const markets = await this.list();
+  async get(marketId: number, options?: CallOptions): Promise<Market | undefined> {
+    const markets = await this.list(options);
     return markets.find((m) => m.id === marketId);
   }
 
   /**
-   * Find a market by base/quote symbols (case-insensitive).
+   * Find a market by base/quote symbols (case-insensitive). Downloads the
+   * full list on every call; use `client.registry` for cached lookups.
    */
-  async findBySymbols(baseSymbol: string, quoteSymbol: string): Promise<Market | undefined> {
-    const markets = await this.list();
+  async findBySymbols(
+    baseSymbol: string,
+    quoteSymbol: string,
+    options?: CallOptions
+  ): Promise<Market | undefined> {
+    const markets = await this.list(options);
     return markets.find(
       (m) =>
         m.base_asset_symbol.toUpperCase() === baseSymbol.toUpperCase() &&
@@ -51,52 +65,90 @@ export class MarketsEndpoint {
    */
   async sparklines(
     timeframe = '1D',
-    limit = 30
+    limit = 30,
+    options?: CallOptions
   ): Promise<MarketSparklinesResponse> {
-    return this.http.get<MarketSparklinesResponse>('/api/markets/sparklines', {
-      timeframe,
-      limit,
-    });
+    return this.http.get<MarketSparklinesResponse>(
+      '/api/markets/sparklines',
+      { timeframe, limit },
+      { ...options, schema: schemas.sparklines }
+    );
   }
 
   /**
    * Get just the trading rules (decimals, tick/step sizes, fees) for a pair.
    * Public endpoint.
    */
-  async marketInfo(baseAssetSymbol: string, quoteAssetSymbol: string): Promise<MarketInfo | undefined> {
-    return this.http.get<MarketInfo>('/api/market-info', {
-      baseAssetSymbol,
-      quoteAssetSymbol,
-    });
+  async marketInfo(
+    baseAssetSymbol: string,
+    quoteAssetSymbol: string,
+    options?: CallOptions
+  ): Promise<MarketInfo | undefined> {
+    return this.http.get<MarketInfo>(
+      '/api/market-info',
+      { baseAssetSymbol, quoteAssetSymbol },
+      { ...options, schema: schemas.marketInfo }
+    );
   }
 
   /**
    * Look up an asset by numeric ID or symbol. Public endpoint.
    */
-  async assetInfo(idOrSymbol: number | string): Promise<AssetInfo | undefined> {
+  async assetInfo(
+    idOrSymbol: number | string,
+    options?: CallOptions
+  ): Promise<AssetInfo | undefined> {
     if (typeof idOrSymbol === 'number') {
-      return this.http.get<AssetInfo>(`/api/asset-info/${idOrSymbol}`);
+      return this.http.get<AssetInfo>(
+        `/api/asset-info/${idOrSymbol}`,
+        undefined,
+        { ...options, schema: schemas.assetInfo }
+      );
+    }
+    return this.http.get<AssetInfo>(
+      `/api/asset-info/symbol/${encodeURIComponent(idOrSymbol)}`,
+      undefined,
+      { ...options, schema: schemas.assetInfo }
+    );
+  }
+
+  /**
+   * Decimals of an asset's smallest unit, as used by the raw-unit endpoints.
+   * Throws an `AmountError` if the asset is unknown.
+   */
+  async assetDecimals(idOrSymbol: number | string, options?: CallOptions): Promise<number> {
+    const info = await this.assetInfo(idOrSymbol, options);
+    if (!info) {
+      throw new AmountError(`Unknown asset: ${idOrSymbol}`);
     }
-    return this.http.get<AssetInfo>(`/api/asset-info/symbol/${encodeURIComponent(idOrSymbol)}`);
+    return info.decimals;
   }
 
   /**
    * Get all CMC-format tickers.
    */
-  async tickers(): Promise<Ticker[]> {
-    return this.http.get<Ticker[]>('/api/tickers');
+  async tickers(options?: CallOptions): Promise<Ticker[]> {
+    return this.http.get<Ticker[]>(
+      '/api/tickers',
+      undefined,
+      { ...options, schema: schemas.tickerList }
+    );
   }
 
   /**
    * Find a ticker by its CMC-format ID (e.g. "BTC_USDT").
    */
-  async ticker(tickerId: string): Promise<Ticker | undefined> {
-    const tickers = await this.tickers();
+  async ticker(tickerId: string, options?: CallOptions): Promise<Ticker | undefined> {
+    const tickers = await this.tickers(options);
     return tickers.find((t) => t.ticker_id === tickerId);
   }
 
-  async tickerByPair(baseCurrency: string, targetCurrency: string): Promise<Ticker | undefined> {
-    const tickers = await this.tickers();
+  async tickerByPair(
+    baseCurrency: string,
+    targetCurrency: string,
+    options?: CallOptions
+  ): Promise<Ticker | undefined> {
+    const tickers = await this.tickers(options);
     return tickers.find(
       (t) =>
         t.base_currency.toUpperCase() === baseCurrency.toUpperCase() &&
@@ -107,11 +159,8 @@ export class MarketsEndpoint {
   /**
    * Get orderbook for a trading pair in the UI format (price/quantity tuples).
    */
-  async orderbook(marketId: number): Promise<Orderbook> {
-    const response = await this.http.get<OrderbookRaw>('/api/orderbook', {
-      marketId,
-      isCmc: false,
-    });
+  async orderbook(marketId: number, options?: CallOptions): Promise<Orderbook> {
+    const response = await this.orderbookRaw(marketId, options);
 
     return {
       trading_pair_id: response.trading_pair_id,
@@ -125,11 +174,12 @@ export class MarketsEndpoint {
   /**
    * Get the raw orderbook (arrays of `[price, quantity]`).
    */
-  async orderbookRaw(marketId: number): Promise<OrderbookRaw> {
-    return this.http.get<OrderbookRaw>('/api/orderbook', {
-      marketId,
-      isCmc: false,
-    });
+  async orderbookRaw(marketId: number, options?: CallOptions): Promise<OrderbookRaw> {
+    return this.http.get<OrderbookRaw>(
+      '/api/orderbook',
+      { marketId, isCmc: false },
+      { ...options, schema: schemas.orderbookRaw }
+    );
   }
 
   /**
@@ -138,34 +188,44 @@ export class MarketsEndpoint {
   async ohlcv(
     marketId: number,
     timeframe: Timeframe,
-    options: {
+    query: {
       limit?: number;
       startDate?: string;
       endDate?: string;
-    } = {}
+    } = {},
+    options?: CallOptions
   ): Promise<OHLCV[]> {
-    return this.http.get<OHLCV[]>('/api/ohlcv', {
-      marketId,
-      timeframe,
-      limit: options.limit,
-      startDate: options.startDate,
-      endDate: options.endDate,
-    });
+    return this.http.get<OHLCV[]>(
+      '/api/ohlcv',
+      {
+        marketId,
+        timeframe,
+        limit: query.limit,
+        startDate: query.startDate,
+        endDate: query.endDate,
+      },
+      { ...options, schema: schemas.ohlcvList }
+    );
   }
 
   /**
    * Get all available assets.
    */
-  async assets(): Promise<Asset[]> {
-    const response = await this.http.get<AssetsResponse>('/api/assets');
+  async assets(options?: CallOptions): Promise<Asset[]> {
+    const response = await this.http.get<AssetsResponse>(
+      '/api/assets',
+      undefined,
+      { ...options, schema: schemas.assetsResponse }
+    );
     return response.assets || [];
   }
 
   /**
-   * Get a single asset from the `assets()` list.
+   * Get a single asset from the `assets()` list. Downloads the full list on
+   * every call; use `client.registry` for cached lookups.
    */
-  async asset(symbol: string): Promise<Asset | undefined> {
-    const assets = await this.assets();
+  async asset(symbol: string, options?: CallOptions): Promise<Asset | undefined> {
+    const assets = await this.assets(options);
     return assets.find((a) => a.symbol.toUpperCase() === symbol.toUpperCase());
   }
 
@@ -176,21 +236,13 @@ export class MarketsEndpoint {
    */
   async trades(
     marketId: number,
-    limit = 50
-  ): Promise<
-    Array<{
-      id: string;
-      trading_pair_id: number;
-      taker_order_id: string;
-      maker_order_id: string;
-      price: string;
-      amount: string;
-      taker_fee: string;
-      maker_fee: string;
-      side: 'buy' | 'sell';
-      created_at: string | null;
-    }>
-  > {
-    return this.http.get('/api/trades', { marketId, limit });
+    limit = 50,
+    options?: CallOptions
+  ): Promise<PublicTrade[]> {
+    return this.http.get<PublicTrade[]>(
+      '/api/trades',
+      { marketId, limit },
+      { ...options, schema: schemas.publicTradeList }
+    );
   }
 }
@@ -1,4 +1,6 @@
 import { HttpClient } from '../http';
+import * as schemas from '../schemas';
+import type { CallOptions } from '../types';
 
 export interface PoolConfig {
   algorithm: string;
@@ -170,50 +172,86 @@ export class MiningPoolEndpoint {
   constructor(private http: HttpClient) {}
 
   /** List per-coin pool configuration (algorithm, port, fee). Public. */
-  async configs(): Promise<PoolConfig[]> {
-    const res = await this.http.get<{ pools: PoolConfig[] }>('/api/pool/configs');
+  async configs(options?: CallOptions): Promise<PoolConfig[]> {
+    const res = await this.http.get<{ pools: PoolConfig[] }>(
+      '/api/pool/configs',
+      undefined,
+      { ...options, schema: schemas.poolConfigs }
+    );
     return res.pools ?? [];
   }
 
   /** Recent blocks found by the pool. Public. */
-  async blocks(params: PoolListParams = {}): Promise<PoolBlocksResponse> {
-    return this.http.get<PoolBlocksResponse>('/api/pool/blocks', {
-      limit: params.limit,
-      offset: params.offset,
-      symbol: params.symbol,
-    });
+  async blocks(params: PoolListParams = {}, options?: CallOptions): Promise<PoolBlocksResponse> {
+    return this.http.get<PoolBlocksResponse>(
+      '/api/pool/blocks',
+      {
+        limit: params.limit,
+        offset: params.offset,
+        symbol: params.symbol,
+      },
+      { ...options, schema: schemas.poolBlocks }
+    );
   }
 
   /** Pool stats (hashrate, difficulty, effort, luck) for a given coin. Public. */
-  async stats(symbol: string, period: PoolStatsPeriod = '24h'): Promise<PoolStats> {
-    return this.http.get<PoolStats>('/api/pool/stats', { symbol, period });
+  async stats(
+    symbol: string,
+    period: PoolStatsPeriod = '24h',
+    options?: CallOptions
+  ): Promise<PoolStats> {
+    return this.http.get<PoolStats>(
+      '/api/pool/stats',
+      { symbol, period },
+      { ...options, schema: schemas.poolStats }
+    );
   }
 
   /** Top miners for a given coin. Public. */
-  async leaderboard(symbol: string, period: PoolStatsPeriod | string = '24h'): Promise<PoolLeaderboard> {
-    return this.http.get<PoolLeaderboard>('/api/pool/leaderboard', { symbol, period });
+  async leaderboard(
+    symbol: string,
+    period: PoolStatsPeriod | string = '24h',
+    options?: CallOptions
+  ): Promise<PoolLeaderboard> {
+    return this.http.get<PoolLeaderboard>(
+      '/api/pool/leaderboard',
+      { symbol, period },
+      { ...options, schema: schemas.poolLeaderboard }
+    );
   }
 
   /** Your authenticated miner's currently-known workers. Requires `read` scope. */
-  async myWorkers(symbol?: string): Promise<PoolWorkersResponse> {
-    return this.http.get<PoolWorkersResponse>('/api/pool/my-workers', { symbol });
+  async myWorkers(symbol?: string, options?: CallOptions): Promise<PoolWorkersResponse> {
+    return this.http.get<PoolWorkersResponse>(
+      '/api/pool/my-workers',
+      { symbol },
+      { ...options, schema: schemas.poolWorkers }
+    );
   }
 
   /** Your mining rewards (per-block, before payout). Requires `read` scope. */
-  async myRewards(params: PoolListParams = {}): Promise<PoolRewardsResponse> {
-    return this.http.get<PoolRewardsResponse>('/api/pool/my-rewards', {
-      limit: params.limit,
-      offset: params.offset,
-      symbol: params.symbol,
-    });
+  async myRewards(params: PoolListParams = {}, options?: CallOptions): Promise<PoolRewardsResponse> {
+    return this.http.get<PoolRewardsResponse>(
+      '/api/pool/my-rewards',
+      {
+        limit: params.limit,
+        offset: params.offset,
+        symbol: params.symbol,
+      },
+      { ...options, schema: schemas.poolRewards }
+    );
   }
 
   /** Your finalized mining payouts. Requires `read` scope. */
-  async myPayouts(params: PoolListParams = {}): Promise<PoolPayoutsResponse> {
-    return this.http.get<PoolPayoutsResponse>('/api/pool/my-payouts', {
-      limit: params.limit,
-      offset: params.offset,
-      symbol: params.symbol,
-    });
+  async myPayouts(params: PoolListParams = {}, options?: CallOptions): Promise<PoolPayoutsResponse> {
+    return this.http.get<PoolPayoutsResponse>(
+      '/api/pool/my-payouts',
+      {
+        limit: params.limit,
+        offset: params.offset,
+        symbol: params.symbol,
+      },
+      { ...options, schema: schemas.poolPayouts }
+    );
   }
 }
@@ -0,0 +1,214 @@
+import { describe, expect, it, vi } from 'vitest';
+import { KlingEx } from '../client';
+import {
+  AuthenticationError,
+  NetworkError,
+  OrderOutcomeUnknownError,
+  OrderValidationError,
+  ServerError,
+  ValidationError,
+} from '../types';
+import type { KlingExConfig } from '../types';
+import { fakeApi, json } from '../testing/fakeApi';
+
+const market = {
+  id: 1,
+  base_asset_symbol: 'BTC',
+  quote_asset_symbol: 'USDT',
+  base_decimals: 8,
+  quote_decimals: 6,
+  min_trade_amount: '0.01',
+  max_trade_amount: null,
+  tick_size: '0.5',
+  step_size: '0.001',
+  maker_fee_rate: '0.001',
+  taker_fee_rate: '0.002',
+  price_decimals: 2,
+};
+
+interface Listed {
+  id: string;
+  client_order_id?: string;
+}
+
+/**
+ * A client over a fake API. Each submit is answered by the next entry of
+ * `submits` (a `Response`, an `Error` to fail the fetch, or a body), and
+ * both order listings return `listed`.
+ */
+function exchange(
+  submits: unknown[] = [],
+  listed: Listed[] = [],
+  config: Partial<KlingExConfig> = {}
+) {
+  const api = fakeApi({
+    'GET /api/markets': [market],
+    'GET /api/assets': { assets: [] },
+    'POST /api/submit-order': () => {
+      const answer = submits.shift() ?? { message: 'Order submitted', order_id: 'o-1' };
+      if (answer instanceof Error) throw answer;
+      return answer;
+    },
+    'GET /api/user-orders': () => ({ orders: listed }),
+    'GET /api/orders-history': () => ({
+      orders: listed,
+      total: listed.length,
+      limit: 50,
+      offset: 0,
+    }),
+  });
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch, retry: false, ...config });
+  const submitted = () => api.requests.filter((r) => r.path === '/api/submit-order');
+  const lookups = () => api.requests.filter((r) => r.path === '/api/user-orders');
+  return { client, submitted, lookups };
+}
+
+describe('OrdersEndpoint preflight', () => {
+  it('rejects an off-tick order before submitting it', async () => {
+    const { client, submitted } = exchange();
+    const order = { symbol: 'btc/usdt', side: 'BUY' as const, quantity: '1', price: '100.3' };
+    const error = await client.orders
+      .submit({ ...order, preflight: true })
+      .catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(OrderValidationError);
+    expect(error).toMatchObject({ rule: 'tick_size', nearestValid: '100.5' });
+    expect(submitted()).toHaveLength(0);
+  });
+
+  it('submits the rounded values with preflight "round"', async () => {
+    const { client, submitted } = exchange();
+    await client.orders.submit({
+      symbol: 'BTC-USDT',
+      side: 'SELL',
+      quantity: '0.0129',
+      price: '100.3',
+      preflight: 'round',
+    });
+    expect(submitted()[0].body).toMatchObject({
+      symbol: 'BTC-USDT',
+      tradingPairId: 1,
+      quantity: '0.012',
+      price: '100.5',
+    });
+  });
+
+  it('cannot be combined with raw values', async () => {
+    const { client, submitted } = exchange();
+    const order = { symbol: 'BTC-USDT', side: 'BUY' as const, quantity: '1', price: '100' };
+    await expect(
+      client.orders.submit({ ...order, rawValues: true, preflight: true })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(submitted()).toHaveLength(0);
+  });
+});
+
+describe('OrdersEndpoint.submit', () => {
+  const params = {
+    symbol: 'BTC-USDT',
+    tradingPairId: 1,
+    side: 'BUY' as const,
+    quantity: '0.5',
+    price: '100',
+    clientOrderId: 'grid-1',
+  };
+  const busy = () => json(503, { error: 'busy' });
+
+  it('posts once and answers a resubmit of the same order locally', async () => {
+    const { client, submitted, lookups } = exchange();
+    await expect(client.orders.submit(params)).resolves.toMatchObject({
+      order_id: 'o-1',
+      client_order_id: 'grid-1',
+    });
+    expect(submitted()[0].body).toMatchObject({ clientOrderId: 'grid-1', side: 'BUY' });
+
+    await expect(client.orders.submit(params)).resolves.toMatchObject({
+      message: 'Order already submitted',
+      order_id: 'o-1',
+    });
+    expect(submitted()).toHaveLength(1);
+    expect(lookups()).toHaveLength(0);
+  });
+
+  it('sends one request for concurrent submits under the same ID', async () => {
+    const { client, submitted } = exchange();
+    const [first, second] = await Promise.all([
+      client.orders.submit(params),
+      client.orders.submit(params),
+    ]);
+    expect(second).toBe(first);
+    expect(submitted()).toHaveLength(1);
+  });
+
+  it('refuses to reuse an ID for a different order', async () => {
+    const { client } = exchange();
+    await client.orders.submit(params);
+    await expect(client.orders.submit({ ...params, price: '101' })).rejects.toBeInstanceOf(
+      ValidationError
+    );
+  });
+
+  it('finds the order by its echoed client order ID after a network error', async () => {
+    const listed = [
+      { id: 'o-0', client_order_id: 'other' },
+      { id: 'o-7', client_order_id: 'grid-1' },
+    ];
+    const { client, submitted } = exchange([new TypeError('socket hang up')], listed);
+    await expect(client.orders.submit(params)).resolves.toMatchObject({ order_id: 'o-7' });
+    await expect(client.orders.findByClientOrderId('grid-1')).resolves.toBe('o-7');
+    expect(submitted()).toHaveLength(1);
+  });
+
+  it('refuses to guess when the server does not echo client order IDs', async () => {
+    const { client } = exchange([busy()], [{ id: 'o-1' }]);
+    const error = await client.orders.submit(params).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(OrderOutcomeUnknownError);
+    expect((error as OrderOutcomeUnknownError).cause).toBeInstanceOf(ServerError);
+  });
+
+  it('reports the generated ID when the order is not found, and retries under it', async () => {
+    const { client, submitted, lookups } = exchange([busy()]);
+    const { clientOrderId: _, ...generated } = params;
+    const error = await client.orders.submit(generated).catch((err: unknown) => err);
+
+    expect(error).toBeInstanceOf(OrderOutcomeUnknownError);
+    const { clientOrderId, cause } = error as OrderOutcomeUnknownError;
+    expect(cause).toBeInstanceOf(ServerError);
+    expect(submitted()[0].body).toMatchObject({ clientOrderId });
+
+    await client.orders.submit({ ...generated, clientOrderId });
+    expect(lookups()).toHaveLength(2);
+    expect(submitted().map((r) => (r.body as { clientOrderId: string }).clientOrderId)).toEqual([
+      clientOrderId,
+      clientOrderId,
+    ]);
+  });
+
+  it('forgets the ID after a definite failure', async () => {
+    const { client, submitted, lookups } = exchange([json(401, { error: 'bad key' })]);
+    await expect(client.orders.submit(params)).rejects.toBeInstanceOf(AuthenticationError);
+    await client.orders.submit(params);
+    expect(submitted()).toHaveLength(2);
+    expect(lookups()).toHaveLength(0);
+  });
+
+  it('retries under the same ID, looking first, when the policy opts submits in', async () => {
+    const onRetry = vi.fn();
+    const retry = { endpoints: ['/api/submit-order'], jitter: false, baseDelay: 1, onRetry };
+    const { client, submitted, lookups } = exchange([busy(), busy()], [], { retry });
+    await expect(client.orders.submit(params)).resolves.toMatchObject({ order_id: 'o-1' });
+
+    expect(submitted()).toHaveLength(3);
+    expect(new Set(submitted().map((r) => JSON.stringify(r.body))).size).toBe(1);
+    expect(lookups()).toHaveLength(2);
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it('does not resend submits on a blanket POST opt-in', async () => {
+    const retry = { methods: ['GET' as const, 'POST' as const], baseDelay: 1 };
+    const { client, submitted } = exchange([new TypeError('reset')], [], { retry });
+    const error = await client.orders.submit(params).catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(OrderOutcomeUnknownError);
+    expect((error as OrderOutcomeUnknownError).cause).toBeInstanceOf(NetworkError);
+    expect(submitted()).toHaveLength(1);
+  });
+});
@@ -1,5 +1,19 @@
 import { HttpClient } from '../http';
+import * as schemas from '../schemas';
+import { MarketsEndpoint } from './markets';
+import { MarketRegistry } from '../registry';
+import { validateOrder } from '../orderValidator';
+import { sleep } from '../retry';
+import type { ValidatedOrder } from '../orderValidator';
+import {
+  NetworkError,
+  OrderOutcomeUnknownError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from '../types';
 import type {
+  CallOptions,
   Order,
   SubmitOrderParams,
   SubmitOrderResponse,
@@ -12,10 +26,54 @@ import type {
   CancelAllOrdersResult,
 } from '../types';
 
+/** Client order IDs remembered for de-duplication. */
+const CLIENT_ORDER_LIMIT = 1000;
+
+const SUBMIT_ORDER = '/api/submit-order';
+
+/** What we sent under a client order ID, to check retries against. */
+interface SubmittedOrder {
+  tradingPairId: number;
+  side: 'buy' | 'sell';
+  quantity: string;
+  price: string;
+  rawValues: boolean;
+  orderId?: string;
+}
+
+function sameOrder(a: SubmittedOrder, b: SubmittedOrder): boolean {
+  return (
+    a.tradingPairId === b.tradingPairId &&
+    a.side === b.side &&
+    a.quantity === b.quantity &&
+    a.price === b.price &&
+    a.rawValues === b.rawValues
+  );
+}
+
+function newClientOrderId(): string {
+  return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+/** Errors after which the order may or may not exist server-side. */
+function isOutcomeUnknown(err: unknown): boolean {
+  return err instanceof TimeoutError || err instanceof NetworkError || err instanceof ServerError;
+}
+
 export class OrdersEndpoint {
   private humanReadableDefault: boolean;
+  /** Orders submitted by this client, keyed by client order ID, oldest first. */
+  private submitted = new Map<string, SubmittedOrder>();
+  /** Submits awaiting a response, by client order ID. */
+  private inFlight = new Map<string, Promise<SubmitOrderResponse>>();
 
-  constructor(private http: HttpClient, humanReadableDefault = true) {
+  constructor(
+    private http: HttpClient,
+    humanReadableDefault = true,
+    private registry: MarketRegistry = new MarketRegistry(new MarketsEndpoint(http))
+  ) {
     this.humanReadableDefault = humanReadableDefault;
   }
 
@@ -42,49 +100,270 @@ export class OrdersEndpoint {
    *   quantity: '0.1',
    *   price: '0'
    * });
+   *
+   * @example
+   * // Snap price/quantity to the market's tick and step size before sending.
+   * await client.orders.submit({ ...params, preflight: 'round' });
+   *
+   * @example
+   * // When a submit fails with an unknown outcome (timeout, network error,
+   * // 5xx) and the order isn't found, it throws `OrderOutcomeUnknownError`
+   * // carrying the client order ID. Retrying under that ID with the same
+   * // params is safe: an existing order is returned instead of placing a
+   * // second one. A concurrent submit under an ID already in flight joins
+   * // that request.
+   * const res = await client.orders.submit(params).catch((err) => {
+   *   if (!(err instanceof OrderOutcomeUnknownError)) throw err;
+   *   return client.orders.submit({ ...params, clientOrderId: err.clientOrderId });
+   * });
+   *
+   * @example
+   * // Omit `tradingPairId` to resolve it (and the canonical symbol) from the
+   * // cached market registry.
+   * await client.orders.submit({
+   *   symbol: 'btc/usdt',
+   *   side: 'BUY',
+   *   quantity: '0.1',
+   *   price: '50000'
+   * });
    */
-  async submit(params: SubmitOrderParams): Promise<SubmitOrderResponse> {
+  async submit(params: SubmitOrderParams, options?: CallOptions): Promise<SubmitOrderResponse> {
     const rawValues = params.rawValues ?? !this.humanReadableDefault;
+    if (params.preflight && rawValues) {
+      throw new ValidationError(
+        'preflight checks human-readable values; it cannot be combined with rawValues'
+      );
+    }
+    let { symbol, tradingPairId, quantity, price } = params;
+    if (tradingPairId === undefined) {
+      const market = await this.registry.market(symbol, options);
+      tradingPairId = market.id;
+      symbol = `${market.base_asset_symbol}-${market.quote_asset_symbol}`;
+    }
+    if (params.preflight) {
+      ({ quantity, price } = await this.validate(
+        { ...params, tradingPairId },
+        params.preflight === 'round',
+        options
+      ));
+    }
+
+    const clientOrderId = params.clientOrderId ?? newClientOrderId();
+    const order: SubmittedOrder = {
+      tradingPairId,
+      side: params.side.toLowerCase() === 'buy' ? 'buy' : 'sell',
+      quantity,
+      price,
+      rawValues,
+    };
+    const previous = this.submitted.get(clientOrderId);
+    if (previous && !sameOrder(previous, order)) {
+      throw new ValidationError(
+        `clientOrderId ${clientOrderId} was already used for a different order`
+      );
+    }
+    // A concurrent submit of the same order joins the one on the wire.
+    const inFlight = this.inFlight.get(clientOrderId);
+    if (inFlight) return inFlight;
+    if (!previous) this.remember(clientOrderId, order);
 
-    return this.http.post<SubmitOrderResponse>('/api/submit-order', {
-      symbol: params.symbol,
-      tradingPairId: params.tradingPairId,
+    const body = {
+      symbol,
+      tradingPairId,
       side: params.side.toUpperCase(),
-      quantity: params.quantity,
-      price: params.price,
+      quantity,
+      price,
       rawValues,
+      clientOrderId,
+    };
+    const submitting = this.send(clientOrderId, body, !!previous, options).finally(() => {
+      this.inFlight.delete(clientOrderId);
     });
+    this.inFlight.set(clientOrderId, submitting);
+    return submitting;
+  }
+
+  /**
+   * POST a submit, unless `isRetry` and an earlier attempt already placed
+   * the order. After a failure with an unknown outcome, looks for the
+   * order; if it isn't there, resends under the same client order ID when
+   * the retry policy opts `/api/submit-order` in, and otherwise throws
+   * `OrderOutcomeUnknownError`.
+   */
+  private async send(
+    clientOrderId: string,
+    body: Record<string, unknown>,
+    isRetry: boolean,
+    options?: CallOptions
+  ): Promise<SubmitOrderResponse> {
+    if (isRetry) {
+      // Only resend if the earlier attempt didn't create the order.
+      const orderId =
+        this.submitted.get(clientOrderId)?.orderId ??
+        (await this.findSubmitted(clientOrderId, options));
+      if (orderId) {
+        return {
+          message: 'Order already submitted',
+          order_id: orderId,
+          client_order_id: clientOrderId,
+        };
+      }
+    }
+
+    let response: SubmitOrderResponse;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        response = await this.http.post<SubmitOrderResponse>(
+          SUBMIT_ORDER,
+          body,
+          // Resending blindly could place the order twice; see below.
+          { ...options, retry: false, schema: schemas.submitOrder }
+        );
+        break;
+      } catch (err) {
+        if (!isOutcomeUnknown(err)) {
+          this.submitted.delete(clientOrderId);
+          throw err;
+        }
+        // The request may have reached the matching engine; look before failing.
+        let orderId: string | undefined;
+        try {
+          orderId = await this.findSubmitted(clientOrderId, options, err);
+        } catch (lookupErr) {
+          if (lookupErr instanceof OrderOutcomeUnknownError) throw lookupErr;
+          throw new OrderOutcomeUnknownError(clientOrderId, err);
+        }
+        if (orderId) {
+          return { message: 'Order submitted', order_id: orderId, client_order_id: clientOrderId };
+        }
+        // Not there, so resending under the same ID is safe.
+        const delay = this.http.retryDelay('POST', SUBMIT_ORDER, err, attempt);
+        if (delay === null) throw new OrderOutcomeUnknownError(clientOrderId, err);
+        await sleep(delay, options?.signal);
+      }
+    }
+
+    const record = this.submitted.get(clientOrderId);
+    if (record) record.orderId = response.order_id;
+    return { ...response, client_order_id: response.client_order_id ?? clientOrderId };
+  }
+
+  /**
+   * Server-side order ID for a client order ID this client submitted, if
+   * the order exists. Matches on the `client_order_id` the server echoes
+   * on open and recent orders.
+   *
+   * @throws {OrderOutcomeUnknownError} if the server doesn't echo
+   *   `client_order_id`, so the order can't be identified.
+   */
+  async findByClientOrderId(
+    clientOrderId: string,
+    options?: CallOptions
+  ): Promise<string | undefined> {
+    const record = this.submitted.get(clientOrderId);
+    return record?.orderId ?? this.findSubmitted(clientOrderId, options);
+  }
+
+  /**
+   * Look for a submitted order by its echoed `client_order_id` among open
+   * and recent orders. Orders without the field mean the server doesn't
+   * echo it; other attributes could match an identical order, so rather
+   * than guess this throws `OrderOutcomeUnknownError` (carrying `cause`).
+   */
+  private async findSubmitted(
+    clientOrderId: string,
+    options?: CallOptions,
+    cause?: unknown
+  ): Promise<string | undefined> {
+    const record = this.submitted.get(clientOrderId);
+    if (!record) return undefined;
+    const orders: Array<Pick<Order, 'id' | 'client_order_id'>> = await this.list(
+      { tradingPairId: record.tradingPairId, limit: 100 },
+      options
+    );
+    let hit = orders.find((o) => o.client_order_id === clientOrderId);
+    if (!hit) {
+      const history = await this.history(
+        { tradingPairId: record.tradingPairId, limit: 50 },
+        options
+      );
+      orders.push(...history.orders);
+      hit = history.orders.find((o) => o.client_order_id === clientOrderId);
+    }
+    if (hit) {
+      record.orderId = hit.id;
+      return hit.id;
+    }
+    if (orders.some((o) => o.client_order_id === undefined)) {
+      throw new OrderOutcomeUnknownError(clientOrderId, cause);
+    }
+    return undefined;
+  }
+
+  private remember(clientOrderId: string, record: SubmittedOrder): void {
+    this.submitted.set(clientOrderId, record);
+    if (this.submitted.size > CLIENT_ORDER_LIMIT) {
+      const oldest = this.submitted.keys().next().value;
+      if (oldest !== undefined) this.submitted.delete(oldest);
+    }
+  }
+
+  /**
+   * Check a human-readable order against its market's trading rules without
+   * submitting it. Throws an `OrderValidationError` naming the failed rule
+   * and nearest valid value; with `autoRound` returns snapped values instead.
+   * Rules come from the cached market registry.
+   */
+  async validate(
+    params: Pick<SubmitOrderParams, 'symbol' | 'tradingPairId' | 'side' | 'quantity' | 'price'>,
+    autoRound = false,
+    options?: CallOptions
+  ): Promise<ValidatedOrder> {
+    const info = await this.registry.marketInfo(params.tradingPairId ?? params.symbol, options);
+    return validateOrder(params, info, { autoRound });
   }
 
   /**
    * Cancel an existing order. `tradingPairId` is required because the
    * `orders` table is LIST-partitioned by trading pair on the backend.
+   * Sent in the high-priority lane when client-side rate limiting is on.
    */
-  async cancel(params: CancelOrderParams): Promise<CancelOrderResponse> {
-    return this.http.post<CancelOrderResponse>('/api/cancel-order', {
-      orderId: params.orderId,
-      tradingPairId: params.tradingPairId,
-    });
+  async cancel(params: CancelOrderParams, options?: CallOptions): Promise<CancelOrderResponse> {
+    return this.http.post<CancelOrderResponse>(
+      '/api/cancel-order',
+      {
+        orderId: params.orderId,
+        tradingPairId: params.tradingPairId,
+      },
+      { ...options, priority: 'high', schema: schemas.cancelOrder }
+    );
   }
 
   /**
-   * Cancel all open orders for a given trading pair.
+   * Cancel all open orders for a given trading pair. Sent in the
+   * high-priority lane when client-side rate limiting is on.
    */
-  async cancelAll(tradingPairId: number): Promise<CancelAllOrdersResult> {
-    return this.http.post<CancelAllOrdersResult>('/api/cancel-all-orders', {
-      tradingPairId,
-    });
+  async cancelAll(tradingPairId: number, options?: CallOptions): Promise<CancelAllOrdersResult> {
+    return this.http.post<CancelAllOrdersResult>(
+      '/api/cancel-all-orders',
+      { tradingPairId },
+      { ...options, priority: 'high', schema: schemas.cancelAllOrders }
+    );
   }
 
   /**
    * Get your currently open orders.
    */
-  async list(params: GetOrdersParams = {}): Promise<Order[]> {
-    const response = await this.http.get<UserOrdersResponse>('/api/user-orders', {
-      tradingPairId: params.tradingPairId,
-      status: params.status,
-      limit: params.limit ?? 50,
-    });
+  async list(params: GetOrdersParams = {}, options?: CallOptions): Promise<Order[]> {
+    const response = await this.http.get<UserOrdersResponse>(
+      '/api/user-orders',
+      {
+        tradingPairId: params.tradingPairId,
+        status: params.status,
+        limit: params.limit ?? 50,
+      },
+      { ...options, schema: schemas.userOrders }
+    );
     return response.orders || [];
   }
 
@@ -92,32 +371,39 @@ export class OrdersEndpoint {
    * Get order history (open, filled, partially filled, cancelled, rejected).
    * Supports the full filter set the backend understands.
    */
-  async history(params: OrdersHistoryParams = {}): Promise<OrdersHistoryResponse> {
-    return this.http.get<OrdersHistoryResponse>('/api/orders-history', {
-      tradingPairId: params.tradingPairId,
-      status: params.status,
-      market: params.market,
-      side: params.side ? params.side.toLowerCase() : undefined,
-      type: params.type,
-      search: params.search,
-      from: params.from,
-      to: params.to,
-      limit: params.limit ?? 50,
-      offset: params.offset ?? 0,
-    });
+  async history(
+    params: OrdersHistoryParams = {},
+    options?: CallOptions
+  ): Promise<OrdersHistoryResponse> {
+    return this.http.get<OrdersHistoryResponse>(
+      '/api/orders-history',
+      {
+        tradingPairId: params.tradingPairId,
+        status: params.status,
+        market: params.market,
+        side: params.side ? params.side.toLowerCase() : undefined,
+        type: params.type,
+        search: params.search,
+        from: params.from,
+        to: params.to,
+        limit: params.limit ?? 50,
+        offset: params.offset ?? 0,
+      },
+      { ...options, schema: schemas.ordersHistory }
+    );
   }
 
   /**
    * Get a specific order by ID. Searches open orders first; falls back to the
    * order history endpoint to find filled/cancelled orders.
    */
-  async get(orderId: string): Promise<Order | undefined> {
-    const open = await this.list({ limit: 100 });
+  async get(orderId: string, options?: CallOptions): Promise<Order | undefined> {
+    const open = await this.list({ limit: 100 }, options);
     const hit = open.find((o) => o.id === orderId);
     if (hit) return hit;
 
     // Fall back to history (matches by ID — backend supports an order-ID search).
-    const history = await this.history({ search: orderId, limit: 50 });
+    const history = await this.history({ search: orderId, limit: 50 }, options);
     const fromHistory = history.orders.find((o) => o.id === orderId);
     if (!fromHistory) return undefined;
     // Coerce history entry into the Order shape (nullable price is the main diff).
@@ -137,6 +423,7 @@ export class OrdersEndpoint {
       human_filled_amount: fromHistory.human_filled_amount,
       human_remaining: fromHistory.human_remaining,
       human_total: fromHistory.human_total,
+      client_order_id: fromHistory.client_order_id,
     };
   }
 
@@ -148,18 +435,20 @@ export class OrdersEndpoint {
     symbol: string,
     tradingPairId: number,
     quantity: string,
-    price: string
+    price: string,
+    options?: CallOptions
   ): Promise<SubmitOrderResponse> {
-    return this.submit({ symbol, tradingPairId, side: 'BUY', quantity, price });
+    return this.submit({ symbol, tradingPairId, side: 'BUY', quantity, price }, options);
   }
 
   async limitSell(
     symbol: string,
     tradingPairId: number,
     quantity: string,
-    price: string
+    price: string,
+    options?: CallOptions
   ): Promise<SubmitOrderResponse> {
-    return this.submit({ symbol, tradingPairId, side: 'SELL', quantity, price });
+    return this.submit({ symbol, tradingPairId, side: 'SELL', quantity, price }, options);
   }
 
   /**
@@ -168,15 +457,19 @@ export class OrdersEndpoint {
   async marketBuy(
     symbol: string,
     tradingPairId: number,
-    quantity: string
+    quantity: string,
+    options?: CallOptions
   ): Promise<SubmitOrderResponse> {
-    return this.submit({
-      symbol,
-      tradingPairId,
-      side: 'BUY',
-      quantity,
-      price: '0',
-    });
+    return this.submit(
+      {
+        symbol,
+        tradingPairId,
+        side: 'BUY',
+        quantity,
+        price: '0',
+      },
+      options
+    );
   }
 
   /**
@@ -185,14 +478,18 @@ export class OrdersEndpoint {
   async marketSell(
     symbol: string,
     tradingPairId: number,
-    quantity: string
+    quantity: string,
+    options?: CallOptions
   ): Promise<SubmitOrderResponse> {
-    return this.submit({
-      symbol,
-      tradingPairId,
-      side: 'SELL',
-      quantity,
-      price: '0',
-    });
+    return this.submit(
+      {
+        symbol,
+        tradingPairId,
+        side: 'SELL',
+        quantity,
+        price: '0',
+      },
+      options
+    );
   }
 }
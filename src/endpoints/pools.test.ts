@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { KlingEx } from '../client';
+import { ValidationError } from '../types';
+import { fakeApi } from '../testing/fakeApi';
+
+describe('PoolsEndpoint human units', () => {
+  const api = fakeApi({
+    'GET /api/pools/3': { success: true, data: { id: 3, base_decimals: 8, quote_decimals: 6 } },
+    'POST /api/pools/add-liquidity': { success: true, data: {} },
+    'POST /api/pools/remove-liquidity': { success: true, data: {} },
+  });
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch });
+  const posts = () => api.requests.filter((r) => r.method === 'POST');
+
+  it('converts with the pool decimals, looked up once per pool', async () => {
+    await client.pools.addLiquidity({
+      poolId: 3,
+      baseAmountMax: '0.1',
+      quoteAmountMax: '5000',
+      minLpTokens: '0',
+      units: 'human',
+    });
+    await client.pools.removeLiquidity({
+      poolId: 3,
+      lpTokens: '100',
+      minBaseOut: '0.05',
+      minQuoteOut: '2500.5',
+      units: 'human',
+    });
+    expect(posts().map((r) => r.body)).toEqual([
+      {
+        pool_id: 3,
+        base_amount_max: '10000000',
+        quote_amount_max: '5000000000',
+        min_lp_tokens: '0',
+      },
+      { pool_id: 3, lp_tokens: '100', min_base_out: '5000000', min_quote_out: '2500500000' },
+    ]);
+    expect(api.requests.filter((r) => r.path === '/api/pools/3')).toHaveLength(1);
+  });
+
+  it('rejects non-positive human amounts like withdrawals and gift codes', async () => {
+    const count = posts().length;
+    await expect(
+      client.pools.addLiquidity({
+        poolId: 3,
+        baseAmountMax: '1',
+        quoteAmountMax: '-5',
+        minLpTokens: '0',
+        units: 'human',
+      })
+    ).rejects.toThrow(new ValidationError('quoteAmountMax must be positive, got "-5"'));
+    await expect(
+      client.pools.removeLiquidity({
+        poolId: 3,
+        lpTokens: '1',
+        minBaseOut: '0',
+        minQuoteOut: '1',
+        units: 'human',
+      })
+    ).rejects.toBeInstanceOf(ValidationError);
+    expect(posts()).toHaveLength(count);
+  });
+});
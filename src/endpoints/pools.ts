@@ -1,5 +1,8 @@
 import { HttpClient } from '../http';
-import { KlingExError } from '../types';
+import * as schemas from '../schemas';
+import { parsePositiveUnits } from '../amount';
+import { NotFoundError } from '../types';
+import type { AmountUnits, CallOptions } from '../types';
 
 export interface PoolListItem {
   id: number;
@@ -69,8 +72,14 @@ export interface AddLiquidityParams {
   baseAmountMax: string;
   /** Maximum quote asset to deposit (smallest units). */
   quoteAmountMax: string;
-  /** Minimum LP tokens to mint (slippage protection). */
+  /** Minimum LP tokens to mint (slippage protection). Always raw LP units. */
   minLpTokens: string;
+  /**
+   * Units of `baseAmountMax` / `quoteAmountMax`. With `'human'` they are
+   * converted using the pool's `base_decimals` / `quote_decimals` and must
+   * be positive. Defaults to `'raw'`.
+   */
+  units?: AmountUnits;
 }
 
 export interface AddLiquidityResult {
@@ -84,12 +93,18 @@ export interface AddLiquidityResult {
 
 export interface RemoveLiquidityParams {
   poolId: number;
-  /** LP tokens to burn (smallest units). */
+  /** LP tokens to burn (smallest units). Always raw LP units. */
   lpTokens: string;
   /** Minimum base asset to receive (slippage protection). */
   minBaseOut: string;
   /** Minimum quote asset to receive (slippage protection). */
   minQuoteOut: string;
+  /**
+   * Units of `minBaseOut` / `minQuoteOut`. With `'human'` they are converted
+   * using the pool's `base_decimals` / `quote_decimals` and must be
+   * positive. Defaults to `'raw'`.
+   */
+  units?: AmountUnits;
 }
 
 export interface RemoveLiquidityResult {
@@ -113,23 +128,38 @@ interface PoolEnvelope<T> {
  * - `addLiquidity` / `removeLiquidity` require an API key with the `liquidity` scope.
  */
 export class PoolsEndpoint {
+  /** `[base, quote]` decimals by pool ID; fixed when a pool is created. */
+  private decimals = new Map<number, [number, number]>();
+
   constructor(private http: HttpClient) {}
 
   /** List all active, public liquidity pools (no auth). */
-  async list(): Promise<PoolListItem[]> {
-    const res = await this.http.get<PoolEnvelope<PoolListItem[]>>('/api/pools/list');
+  async list(options?: CallOptions): Promise<PoolListItem[]> {
+    const res = await this.http.get<PoolEnvelope<PoolListItem[]>>(
+      '/api/pools/list',
+      undefined,
+      { ...options, schema: schemas.poolList }
+    );
     return res.data;
   }
 
   /** Get details for a single pool by ID (no auth). */
-  async get(poolId: number): Promise<PoolDetail> {
-    const res = await this.http.get<PoolEnvelope<PoolDetail>>(`/api/pools/${poolId}`);
+  async get(poolId: number, options?: CallOptions): Promise<PoolDetail> {
+    const res = await this.http.get<PoolEnvelope<PoolDetail>>(
+      `/api/pools/${poolId}`,
+      undefined,
+      { ...options, schema: schemas.poolDetail }
+    );
     return res.data;
   }
 
   /** Get the authenticated user's LP positions across all pools. */
-  async positions(): Promise<UserPosition[]> {
-    const res = await this.http.get<PoolEnvelope<UserPosition[]>>('/api/pools/positions');
+  async positions(options?: CallOptions): Promise<UserPosition[]> {
+    const res = await this.http.get<PoolEnvelope<UserPosition[]>>(
+      '/api/pools/positions',
+      undefined,
+      { ...options, schema: schemas.userPositions }
+    );
     return res.data;
   }
 
@@ -139,15 +169,20 @@ export class PoolsEndpoint {
    * @param poolId - Pool ID.
    * @param days - Lookback window in days (1-365, default 30).
    */
-  async positionHistory(poolId: number, days = 30): Promise<PositionHistoryResponse> {
+  async positionHistory(
+    poolId: number,
+    days = 30,
+    options?: CallOptions
+  ): Promise<PositionHistoryResponse> {
     try {
       const res = await this.http.get<PoolEnvelope<PositionHistoryResponse>>(
         '/api/pools/positions/history',
         { pool_id: poolId, days },
+        { ...options, schema: schemas.positionHistory },
       );
       return res.data;
     } catch (err) {
-      if (err instanceof KlingExError && err.statusCode === 404) {
+      if (err instanceof NotFoundError) {
         return {
           pool_id: poolId,
           base_symbol: '',
@@ -161,25 +196,89 @@ export class PoolsEndpoint {
     }
   }
 
-  /** Deposit liquidity into a pool. Requires `liquidity` scope. */
-  async addLiquidity(params: AddLiquidityParams): Promise<AddLiquidityResult> {
-    const res = await this.http.post<PoolEnvelope<AddLiquidityResult>>('/api/pools/add-liquidity', {
-      pool_id: params.poolId,
-      base_amount_max: params.baseAmountMax,
-      quote_amount_max: params.quoteAmountMax,
-      min_lp_tokens: params.minLpTokens,
-    });
+  /**
+   * Deposit liquidity into a pool. Requires `liquidity` scope.
+   *
+   * @example
+   * await client.pools.addLiquidity({
+   *   poolId: 3,
+   *   baseAmountMax: '0.25',
+   *   quoteAmountMax: '15000',
+   *   minLpTokens: '0',
+   *   units: 'human',
+   * });
+   */
+  async addLiquidity(
+    params: AddLiquidityParams,
+    options?: CallOptions
+  ): Promise<AddLiquidityResult> {
+    const [baseAmountMax, quoteAmountMax] = await this.toRaw(
+      params.poolId,
+      [params.baseAmountMax, params.quoteAmountMax],
+      ['baseAmountMax', 'quoteAmountMax'],
+      params.units,
+      options
+    );
+    const res = await this.http.post<PoolEnvelope<AddLiquidityResult>>(
+      '/api/pools/add-liquidity',
+      {
+        pool_id: params.poolId,
+        base_amount_max: baseAmountMax,
+        quote_amount_max: quoteAmountMax,
+        min_lp_tokens: params.minLpTokens,
+      },
+      { ...options, schema: schemas.addLiquidity }
+    );
     return res.data;
   }
 
   /** Burn LP tokens and withdraw the underlying assets. Requires `liquidity` scope. */
-  async removeLiquidity(params: RemoveLiquidityParams): Promise<RemoveLiquidityResult> {
-    const res = await this.http.post<PoolEnvelope<RemoveLiquidityResult>>('/api/pools/remove-liquidity', {
-      pool_id: params.poolId,
-      lp_tokens: params.lpTokens,
-      min_base_out: params.minBaseOut,
-      min_quote_out: params.minQuoteOut,
-    });
+  async removeLiquidity(
+    params: RemoveLiquidityParams,
+    options?: CallOptions
+  ): Promise<RemoveLiquidityResult> {
+    const [minBaseOut, minQuoteOut] = await this.toRaw(
+      params.poolId,
+      [params.minBaseOut, params.minQuoteOut],
+      ['minBaseOut', 'minQuoteOut'],
+      params.units,
+      options
+    );
+    const res = await this.http.post<PoolEnvelope<RemoveLiquidityResult>>(
+      '/api/pools/remove-liquidity',
+      {
+        pool_id: params.poolId,
+        lp_tokens: params.lpTokens,
+        min_base_out: minBaseOut,
+        min_quote_out: minQuoteOut,
+      },
+      { ...options, schema: schemas.removeLiquidity }
+    );
     return res.data;
   }
+
+  /**
+   * Convert a base/quote amount pair to raw units using the pool's decimals,
+   * fetched once per pool. Human amounts must be positive; `fields` name
+   * them in the `ValidationError`.
+   */
+  private async toRaw(
+    poolId: number,
+    [base, quote]: [string, string],
+    fields: [string, string],
+    units: AmountUnits | undefined,
+    options?: CallOptions
+  ): Promise<[string, string]> {
+    if (units !== 'human') return [base, quote];
+    let decimals = this.decimals.get(poolId);
+    if (!decimals) {
+      const pool = await this.get(poolId, options);
+      decimals = [pool.base_decimals, pool.quote_decimals];
+      this.decimals.set(poolId, decimals);
+    }
+    return [
+      parsePositiveUnits(base, decimals[0], fields[0]).toString(),
+      parsePositiveUnits(quote, decimals[1], fields[1]).toString(),
+    ];
+  }
 }
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { KlingEx } from '../client';
+
+function row(symbol: string, balance: string | null, locked: string | null, decimals: number) {
+  return { symbol, balance, locked_balance: locked, decimals, deposit_address: null };
+}
+
+function clientReturning(rows: unknown[]): KlingEx {
+  return new KlingEx({
+    apiKey: 'key',
+    fetch: async () =>
+      new Response(JSON.stringify(rows), { headers: { 'content-type': 'application/json' } }),
+  });
+}
+
+describe('WalletEndpoint.balances', () => {
+  it('adds available and human-readable amounts', async () => {
+    const client = clientReturning([row('ETH', '1500000000000000000', '500000000000000000', 18)]);
+    const [eth] = await client.wallet.balances();
+    expect(eth).toMatchObject({
+      available_balance: '1000000000000000000',
+      human_balance: '1.5',
+      human_locked: '0.5',
+      human_available: '1',
+    });
+  });
+
+  it('reads missing amounts as zero instead of failing the list', async () => {
+    const balances = await clientReturning([
+      row('BTC', '', null, 8),
+      row('ETH', '100', '', 2),
+    ]).wallet.balances();
+    expect(balances.map((b) => [b.human_balance, b.human_locked, b.human_available])).toEqual([
+      ['0', '0', '0'],
+      ['1', '0', '1'],
+    ]);
+  });
+});
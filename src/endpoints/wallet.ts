@@ -1,5 +1,7 @@
 import { HttpClient } from '../http';
-import type { Balance, DepositAddress } from '../types';
+import { formatUnits } from '../amount';
+import * as schemas from '../schemas';
+import type { Balance, CallOptions, DepositAddress } from '../types';
 
 /**
  * Wallet/balance endpoints accessible via API keys.
@@ -23,8 +25,12 @@ export class WalletEndpoint {
    * console.log(`ETH: ${eth?.human_available}`);
    * console.log(`Deposit address: ${eth?.deposit_address}`);
    */
-  async balances(): Promise<Balance[]> {
-    const balances = await this.http.get<Balance[]>('/api/user-balances');
+  async balances(options?: CallOptions): Promise<Balance[]> {
+    const balances = await this.http.get<Balance[]>(
+      '/api/user-balances',
+      undefined,
+      { ...options, schema: schemas.balanceList }
+    );
 
     return balances.map((b) => {
       const balance = BigInt(b.balance || '0');
@@ -34,9 +40,10 @@ export class WalletEndpoint {
       return {
         ...b,
         available_balance: available.toString(),
-        human_balance: this.formatUnits(b.balance, b.decimals),
-        human_locked: this.formatUnits(b.locked_balance, b.decimals),
-        human_available: this.formatUnits(available.toString(), b.decimals),
+        // A missing field reads as zero rather than failing the whole list.
+        human_balance: formatUnits(b.balance || '0', b.decimals),
+        human_locked: formatUnits(b.locked_balance || '0', b.decimals),
+        human_available: formatUnits(available.toString(), b.decimals),
       };
     });
   }
@@ -44,8 +51,8 @@ export class WalletEndpoint {
   /**
    * Get balance for a specific asset symbol (case-insensitive).
    */
-  async balance(symbol: string): Promise<Balance | undefined> {
-    const balances = await this.balances();
+  async balance(symbol: string, options?: CallOptions): Promise<Balance | undefined> {
+    const balances = await this.balances(options);
     return balances.find((b) => b.symbol.toUpperCase() === symbol.toUpperCase());
   }
 
@@ -54,8 +61,12 @@ export class WalletEndpoint {
    * Returns `undefined` if the asset isn't in the user's wallet list or the
    * backend has no deposit address recorded for it yet.
    */
-  async depositAddress(symbol: string): Promise<DepositAddress | undefined> {
-    const balances = await this.http.get<Balance[]>('/api/user-balances');
+  async depositAddress(symbol: string, options?: CallOptions): Promise<DepositAddress | undefined> {
+    const balances = await this.http.get<Balance[]>(
+      '/api/user-balances',
+      undefined,
+      { ...options, schema: schemas.balanceList }
+    );
     const wallet = balances.find((b) => b.symbol.toUpperCase() === symbol.toUpperCase());
     if (!wallet || !wallet.deposit_address) {
       return undefined;
@@ -65,22 +76,4 @@ export class WalletEndpoint {
       memo: wallet.payment_id ?? undefined,
     };
   }
-
-  /**
-   * Format raw smallest-unit value to a human-readable decimal string.
-   */
-  private formatUnits(value: string, decimals: number): string {
-    if (!value) return '0';
-    if (decimals === 0) return value;
-
-    const isNegative = value.startsWith('-');
-    const abs = isNegative ? value.slice(1) : value;
-    const padded = abs.padStart(decimals + 1, '0');
-    const intPart = padded.slice(0, -decimals) || '0';
-    const decPart = padded.slice(-decimals);
-
-    const trimmedDec = decPart.replace(/0+$/, '');
-    const out = trimmedDec ? `${intPart}.${trimmedDec}` : intPart;
-    return isNegative ? `-${out}` : out;
-  }
 }
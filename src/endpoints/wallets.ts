@@ -1,4 +1,6 @@
 import { HttpClient } from '../http';
+import * as schemas from '../schemas';
+import type { CallOptions } from '../types';
 
 export interface WalletsStatusCounts {
   active: number;
@@ -68,14 +70,21 @@ export class WalletsEndpoint {
   /**
    * Get the overall wallet/sync status across all assets and networks.
    */
-  async status(): Promise<WalletsStatus> {
-    return this.http.get<WalletsStatus>('/api/wallets/status');
+  async status(options?: CallOptions): Promise<WalletsStatus> {
+    return this.http.get<WalletsStatus>('/api/wallets/status', undefined, {
+      ...options,
+      schema: schemas.walletsStatus,
+    });
   }
 
   /**
    * Get the sync status for a single asset.
    */
-  async assetStatus(assetId: number): Promise<WalletAssetStatusDetail> {
-    return this.http.get<WalletAssetStatusDetail>(`/api/wallets/status/${assetId}`);
+  async assetStatus(assetId: number, options?: CallOptions): Promise<WalletAssetStatusDetail> {
+    return this.http.get<WalletAssetStatusDetail>(
+      `/api/wallets/status/${assetId}`,
+      undefined,
+      { ...options, schema: schemas.walletAssetStatus }
+    );
   }
 }
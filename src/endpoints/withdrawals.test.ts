@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { KlingEx } from '../client';
+import { AmountError, UnknownAssetError, ValidationError } from '../types';
+import { fakeApi } from '../testing/fakeApi';
+
+const api = fakeApi({
+  'GET /api/markets': [],
+  'GET /api/assets': {
+    assets: [{ id: 2, symbol: 'ETH', name: 'Ether', decimals: 18 }],
+  },
+  'POST /api/submit-withdraw': { message: 'ok', withdrawalId: 'w-1' },
+});
+const client = new KlingEx({ apiKey: 'key', fetch: api.fetch });
+
+const submitted = () => api.requests.filter((r) => r.path === '/api/submit-withdraw');
+
+describe('WithdrawalsEndpoint.submit', () => {
+  it('converts human amounts with the asset decimals and fills in the asset ID', async () => {
+    await client.withdrawals.submit({
+      symbol: 'eth',
+      amount: '0.5',
+      units: 'human',
+      address: '0xabc',
+    });
+    expect(submitted().at(-1)?.body).toMatchObject({
+      assetId: 2,
+      amount: '500000000000000000',
+    });
+  });
+
+  it('sends raw amounts untouched', async () => {
+    await client.withdrawals.submit({ symbol: 'ETH', assetId: 2, amount: '5', address: '0xabc' });
+    expect(submitted().at(-1)?.body).toMatchObject({ assetId: 2, amount: '5' });
+  });
+
+  it('rejects bad human amounts before sending anything', async () => {
+    const count = submitted().length;
+    const submit = (amount: string, symbol = 'ETH') =>
+      client.withdrawals.submit({ symbol, amount, units: 'human', address: '0xabc' });
+
+    await expect(submit('0')).rejects.toBeInstanceOf(ValidationError);
+    await expect(submit('-1')).rejects.toThrow(/amount must be positive/);
+    await expect(submit('0.0000000000000000001')).rejects.toBeInstanceOf(AmountError);
+    await expect(submit('1', 'DOGE')).rejects.toBeInstanceOf(UnknownAssetError);
+    expect(submitted()).toHaveLength(count);
+  });
+});
@@ -1,4 +1,8 @@
 import { HttpClient } from '../http';
+import { parsePositiveUnits } from '../amount';
+import { MarketsEndpoint } from './markets';
+import { MarketRegistry } from '../registry';
+import type { AmountUnits, CallOptions } from '../types';
 
 /**
  * Parameters for submitting an on-chain withdrawal via an API key.
@@ -6,16 +10,22 @@ import { HttpClient } from '../http';
 export interface SubmitWithdrawalParams {
   /** Asset symbol (e.g. "BTC", "ETH"). */
   symbol: string;
-  /** Numeric asset ID. */
-  assetId: number;
+  /** Numeric asset ID. Resolved from `symbol` via the market registry if omitted. */
+  assetId?: number;
   /**
    * Amount in the asset's smallest base units, as a decimal integer string
    * (no decimal point, no scientific notation). Human-readable values like
-   * `"0.5"` are rejected — convert using the asset's `decimals` first.
+   * `"0.5"` are rejected — convert using the asset's `decimals` first, or
+   * set `units: 'human'`.
    *
    * Example: to withdraw 0.5 ETH (18 decimals), pass `"500000000000000000"`.
    */
   amount: string;
+  /**
+   * Units `amount` is given in. With `'human'` the asset's decimals are
+   * looked up via the market registry. Defaults to `'raw'`.
+   */
+  units?: AmountUnits;
   /** Destination address. */
   address: string;
   /** XRP-style uint32 destination tag. */
@@ -40,7 +50,10 @@ export interface SubmitWithdrawalResponse {
  * and intentionally not exposed in the SDK.
  */
 export class WithdrawalsEndpoint {
-  constructor(private http: HttpClient) {}
+  constructor(
+    private http: HttpClient,
+    private registry: MarketRegistry = new MarketRegistry(new MarketsEndpoint(http))
+  ) {}
 
   /**
    * Submit an on-chain withdrawal.
@@ -48,7 +61,8 @@ export class WithdrawalsEndpoint {
    * API keys with the `withdraw` scope skip interactive 2FA and email
    * confirmation; the 2FA gate was enforced when the scope was granted.
    *
-   * The `amount` is **raw base units** (a decimal integer string).
+   * The `amount` is **raw base units** (a decimal integer string) unless
+   * `units: 'human'` is set.
    *
    * @example
    * // Withdraw 0.5 ETH (1e18 wei per ETH).
@@ -59,15 +73,41 @@ export class WithdrawalsEndpoint {
    *   address: '0xabc...'
    * });
    * console.log(result.withdrawalId);
+   *
+   * @example
+   * // Same withdrawal in human units; decimals are resolved automatically.
+   * await client.withdrawals.submit({
+   *   symbol: 'ETH',
+   *   assetId: 2,
+   *   amount: '0.5',
+   *   units: 'human',
+   *   address: '0xabc...'
+   * });
    */
-  async submit(params: SubmitWithdrawalParams): Promise<SubmitWithdrawalResponse> {
-    return this.http.post<SubmitWithdrawalResponse>('/api/submit-withdraw', {
-      symbol: params.symbol,
-      assetId: params.assetId,
-      amount: params.amount,
-      address: params.address,
-      destinationTag: params.destinationTag,
-      memo: params.memo,
-    });
+  async submit(
+    params: SubmitWithdrawalParams,
+    options?: CallOptions
+  ): Promise<SubmitWithdrawalResponse> {
+    let { assetId, amount } = params;
+    if (assetId === undefined || params.units === 'human') {
+      const asset = await this.registry.asset(assetId ?? params.symbol, options);
+      assetId = asset.id;
+      if (params.units === 'human') {
+        amount = parsePositiveUnits(params.amount, asset.decimals, 'amount').toString();
+      }
+    }
+
+    return this.http.post<SubmitWithdrawalResponse>(
+      '/api/submit-withdraw',
+      {
+        symbol: params.symbol,
+        assetId,
+        amount,
+        address: params.address,
+        destinationTag: params.destinationTag,
+        memo: params.memo,
+      },
+      options
+    );
   }
 }
@@ -0,0 +1,334 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpClient } from './http';
+import type { HttpClientConfig } from './http';
+import * as s from './schema';
+import {
+  AuthenticationError,
+  ConflictError,
+  InsufficientFundsError,
+  KlingExError,
+  NetworkError,
+  NotFoundError,
+  PermissionError,
+  RateLimitError,
+  SchemaMismatchError,
+  ServerError,
+  TimeoutError,
+  ValidationError,
+} from './types';
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+function client(fetch: typeof globalThis.fetch, config: Partial<HttpClientConfig> = {}) {
+  return new HttpClient({
+    baseUrl: 'https://api.example.test',
+    apiKey: 'key',
+    timeout: 5000,
+    fetch,
+    ...config,
+  });
+}
+
+describe('retries', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const policy = { jitter: false, baseDelay: 100, maxDelay: 5000 };
+
+  it('retries a failed GET with backoff and reports each retry', async () => {
+    const fetch = vi
+      .fn<Parameters<typeof globalThis.fetch>, Promise<Response>>()
+      .mockResolvedValueOnce(json(503, { error: 'busy' }))
+      .mockResolvedValueOnce(json(502, { error: 'busy' }))
+      .mockResolvedValueOnce(json(200, { ok: true }));
+    const onRetry = vi.fn();
+    const http = client(fetch, { retry: { ...policy, onRetry } });
+
+    const result = http.get('/api/markets');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(100);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200);
+    await expect(result).resolves.toEqual({ ok: true });
+    expect(onRetry.mock.calls.map(([info]) => [info.attempt, info.delay])).toEqual([
+      [1, 100],
+      [2, 200],
+    ]);
+  });
+
+  it('gives up after maxAttempts with the last error', async () => {
+    const fetch = vi.fn(async () => json(503, { error: 'busy' }));
+    const http = client(fetch, { retry: { ...policy, maxAttempts: 2 } });
+
+    const result = http.get('/api/markets');
+    const failed = expect(result).rejects.toBeInstanceOf(ServerError);
+    await vi.advanceTimersByTimeAsync(100);
+    await failed;
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry POSTs unless opted in', async () => {
+    const fetch = vi.fn(async () => json(503, { error: 'busy' }));
+    const http = client(fetch, { retry: policy });
+    await expect(http.post('/api/cancel-order', { orderId: '1' })).rejects.toBeInstanceOf(
+      ServerError
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits out the Retry-After header on 429', async () => {
+    const fetch = vi
+      .fn<Parameters<typeof globalThis.fetch>, Promise<Response>>()
+      .mockResolvedValueOnce(json(429, { error: 'slow down' }, { 'retry-after': '2' }))
+      .mockResolvedValueOnce(json(200, []));
+    const http = client(fetch, { retry: policy });
+
+    const result = http.get('/api/markets');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(fetch).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await expect(result).resolves.toEqual([]);
+  });
+
+  it('surfaces a 429 whose Retry-After exceeds maxDelay', async () => {
+    const fetch = vi.fn(async () => json(429, { error: 'slow down', retry_after: 60 }));
+    const http = client(fetch, { retry: policy });
+    const error = await http.get('/api/markets').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).retryAfter).toBe(60);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('middleware', () => {
+  it('runs outermost first and can rewrite the request', async () => {
+    const fetch = vi.fn(async () => json(200, { ok: true }));
+    const calls: string[] = [];
+    const http = client(fetch, {
+      middleware: [
+        async (ctx, next) => {
+          calls.push('outer');
+          ctx.headers['X-Trace'] = 'abc';
+          const result = await next();
+          calls.push('outer done');
+          return result;
+        },
+        async (ctx, next) => {
+          calls.push(`inner sees ${ctx.headers['X-Trace']}`);
+          ctx.params = { ...ctx.params, limit: 5 };
+          return next();
+        },
+      ],
+    });
+
+    await expect(http.get('/api/markets')).resolves.toEqual({ ok: true });
+    expect(calls).toEqual(['outer', 'inner sees abc', 'outer done']);
+    const [url, init] = fetch.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://api.example.test/api/markets?limit=5');
+    expect(init.headers).toMatchObject({ 'X-Trace': 'abc', 'X-API-Key': 'key' });
+  });
+
+  it('can answer without calling fetch', async () => {
+    const fetch = vi.fn(async () => json(200, 'network'));
+    const http = client(fetch, { middleware: [async () => 'cached'] });
+    await expect(http.get('/api/markets')).resolves.toBe('cached');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('sees errors and wraps all retries of one call', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetch = vi.fn(async () => json(503, { error: 'busy' }));
+      const seen: unknown[] = [];
+      const http = client(fetch, {
+        retry: { jitter: false, baseDelay: 10, maxAttempts: 3 },
+        middleware: [
+          async (_ctx, next) => {
+            try {
+              return await next();
+            } catch (err) {
+              seen.push(err);
+              throw err;
+            }
+          },
+        ],
+      });
+      const result = http.get('/api/markets');
+      const failed = expect(result).rejects.toBeInstanceOf(ServerError);
+      await vi.advanceTimersByTimeAsync(30);
+      await failed;
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(seen).toHaveLength(1);
+      expect(seen[0]).toBeInstanceOf(ServerError);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('per-call options', () => {
+  /** A fetch that never answers, but rejects like fetch does when aborted. */
+  const hanging = vi.fn(
+    (_url: string | URL | Request, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () => {
+          reject(new DOMException('The operation was aborted.', 'AbortError'));
+        });
+      })
+  );
+
+  it('aborts an in-flight request with ABORTED', async () => {
+    const controller = new AbortController();
+    const result = client(hanging).get('/api/markets', undefined, { signal: controller.signal });
+    controller.abort();
+    await expect(result).rejects.toMatchObject({ code: 'ABORTED' });
+  });
+
+  it('does not send a request whose signal already aborted', async () => {
+    const fetch = vi.fn(async () => json(200, {}));
+    const signal = AbortSignal.abort();
+    await expect(client(fetch).get('/api/markets', undefined, { signal })).rejects.toMatchObject({
+      code: 'ABORTED',
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('times out per call, overriding the client default', async () => {
+    vi.useFakeTimers();
+    try {
+      const result = client(hanging, { retry: false }).get('/api/markets', undefined, {
+        timeout: 50,
+      });
+      const failed = expect(result).rejects.toBeInstanceOf(TimeoutError);
+      await vi.advanceTimersByTimeAsync(50);
+      await failed;
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('aborts during retry backoff', async () => {
+    vi.useFakeTimers();
+    try {
+      const fetch = vi.fn(async () => json(503, { error: 'busy' }));
+      const controller = new AbortController();
+      const http = client(fetch, { retry: { jitter: false, baseDelay: 1000 } });
+      const result = http.get('/api/markets', undefined, { signal: controller.signal });
+      const aborted = expect(result).rejects.toMatchObject({ code: 'ABORTED' });
+      await vi.advanceTimersByTimeAsync(10);
+      controller.abort();
+      await aborted;
+      expect(fetch).toHaveBeenCalledTimes(1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('errors', () => {
+  const fail = (status: number, body: unknown, headers?: Record<string, string>) =>
+    client(async () => json(status, body, headers), { retry: false })
+      .post('/api/submit-order', {})
+      .catch((err: unknown) => err);
+
+  it.each([
+    [401, AuthenticationError, false],
+    [403, PermissionError, false],
+    [404, NotFoundError, false],
+    [408, TimeoutError, true],
+    [409, ConflictError, false],
+    [429, RateLimitError, true],
+    [400, ValidationError, false],
+    [500, ServerError, true],
+    [501, ServerError, false],
+    [418, KlingExError, false],
+  ] as const)('maps %i to %s', async (status, ErrorClass, retryable) => {
+    const error = (await fail(status, { error: 'nope' })) as KlingExError;
+    expect(error).toBeInstanceOf(ErrorClass);
+    expect(error.statusCode).toBe(status);
+    expect(error.message).toBe('nope');
+    expect(error.isRetryable).toBe(retryable);
+  });
+
+  it('carries the request context and server code', async () => {
+    const error = (await fail(
+      400,
+      { message: 'bad price', code: 'PRICE_TICK' },
+      { 'x-request-id': 'req-1' }
+    )) as KlingExError;
+    expect(error).toMatchObject({
+      method: 'POST',
+      endpoint: '/api/submit-order',
+      serverCode: 'PRICE_TICK',
+      requestId: 'req-1',
+    });
+  });
+
+  it('recognises insufficient funds and the missing scope', async () => {
+    expect(await fail(400, { error: 'Insufficient balance' })).toBeInstanceOf(
+      InsufficientFundsError
+    );
+    const denied = await fail(403, { error: 'API key lacks trade permission' });
+    expect((denied as PermissionError).requiredScope).toBe('trade');
+  });
+
+  it('wraps transport failures as NetworkError', async () => {
+    const http = client(
+      async () => {
+        throw new TypeError('fetch failed');
+      },
+      { retry: false }
+    );
+    const error = await http.get('/api/markets').catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ message: 'fetch failed', endpoint: '/api/markets' });
+  });
+});
+
+describe('response validation', () => {
+  const schema = s.object<{ id: number }>({ id: s.number() });
+  const answer = async () => json(200, { id: '7' });
+
+  it('skips validation when off', async () => {
+    const onSchemaMismatch = vi.fn();
+    const http = client(answer, { onSchemaMismatch });
+    await expect(http.get('/api/markets', undefined, { schema })).resolves.toEqual({ id: '7' });
+    expect(onSchemaMismatch).not.toHaveBeenCalled();
+  });
+
+  it('reports mismatches and returns the data in warn mode', async () => {
+    const onSchemaMismatch = vi.fn();
+    const http = client(answer, { validation: 'warn', onSchemaMismatch });
+    await expect(http.get('/api/markets', undefined, { schema })).resolves.toEqual({ id: '7' });
+    expect(onSchemaMismatch).toHaveBeenCalledWith({
+      method: 'GET',
+      endpoint: '/api/markets',
+      issues: [{ path: '$.id', expected: 'number', received: 'string' }],
+    });
+  });
+
+  it('throws for GET in strict mode', async () => {
+    const http = client(answer, { validation: 'strict' });
+    const error = await http.get('/api/markets', undefined, { schema }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect((error as SchemaMismatchError).issues).toHaveLength(1);
+  });
+
+  it('only reports a mutating call in strict mode, since it already took effect', async () => {
+    const onSchemaMismatch = vi.fn();
+    const http = client(answer, { validation: 'strict', onSchemaMismatch });
+    await expect(http.post('/api/cancel-order', {}, { schema })).resolves.toEqual({ id: '7' });
+    expect(onSchemaMismatch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,10 +1,39 @@
 import {
   KlingExError,
   AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
   RateLimitError,
   ValidationError,
   InsufficientFundsError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  SchemaMismatchError,
 } from './types';
+import type {
+  ApiKeyScope,
+  ErrorContext,
+  HttpMethod,
+  RetryOptions,
+  RateLimitOptions,
+  RequestPriority,
+  Middleware,
+  RequestContext,
+  SchemaMismatch,
+  ValidationMode,
+} from './types';
+import {
+  resolveRetryPolicy,
+  isRetryEligible,
+  retryDelay,
+  parseRetryAfterHeader,
+  sleep,
+  type RetryPolicy,
+} from './retry';
+import { RequestScheduler } from './rateLimiter';
+import { validate, type AnySchema } from './schema';
 
 export interface HttpClientConfig {
   baseUrl: string;
@@ -14,20 +43,50 @@ export interface HttpClientConfig {
    */
   apiKey: string;
   timeout: number;
+  /** Retry policy; `false` disables retries. */
+  retry?: RetryOptions | false;
+  /** Client-side rate limiting; omitted means requests are sent immediately. */
+  rateLimit?: RateLimitOptions;
+  /** Request/response middleware, outermost first. */
+  middleware?: Middleware[];
+  /** `fetch` implementation (default: the global `fetch`). */
+  fetch?: typeof fetch;
+  /** Response validation mode (default: 'off'). */
+  validation?: ValidationMode;
+  onSchemaMismatch?: (mismatch: SchemaMismatch) => void;
 }
 
 export interface RequestOptions {
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method?: HttpMethod;
   body?: unknown;
   params?: Record<string, string | number | boolean | undefined>;
   headers?: Record<string, string>;
+  /**
+   * Force retries on (`true`) or off (`false`) for this request, overriding
+   * the policy's method/endpoint eligibility.
+   */
+  retry?: boolean;
+  /** Scheduling lane when client-side rate limiting is enabled. */
+  priority?: RequestPriority;
+  /** Aborts the request, including any queueing or retry backoff. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, overriding the client default. */
+  timeout?: number;
+  /** Expected response shape, checked when validation is enabled. */
+  schema?: AnySchema;
 }
 
 export class HttpClient {
   private config: HttpClientConfig;
+  private retryPolicy: RetryPolicy;
+  private scheduler: RequestScheduler | null;
+  private middleware: Middleware[];
 
   constructor(config: HttpClientConfig) {
     this.config = config;
+    this.retryPolicy = resolveRetryPolicy(config.retry);
+    this.scheduler = config.rateLimit ? new RequestScheduler(config.rateLimit) : null;
+    this.middleware = config.middleware ?? [];
   }
 
   /**
@@ -38,10 +97,118 @@ export class HttpClient {
   }
 
   /**
-   * Make an HTTP request to the API.
+   * Delay before retrying a failed `method endpoint` call by hand under the
+   * retry policy, reported through `onRetry`, or `null` if the policy
+   * doesn't retry it. For callers that must check whether the failed
+   * attempt took effect before resending.
+   */
+  retryDelay(method: HttpMethod, endpoint: string, error: unknown, attempt: number): number | null {
+    const policy = this.retryPolicy;
+    if (!isRetryEligible(policy, method, endpoint) || !(error instanceof KlingExError)) {
+      return null;
+    }
+    const delay = retryDelay(policy, error, attempt);
+    if (delay !== null) policy.onRetry?.({ method, endpoint, attempt, delay, error });
+    return delay;
+  }
+
+  /**
+   * Make an HTTP request to the API. The request passes through the
+   * middleware chain first; the innermost step queues each attempt through
+   * the rate limiter (if enabled) and retries failures according to the
+   * configured retry policy.
    */
   async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
-    const { method = 'GET', body, params, headers = {} } = options;
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...options.headers,
+    };
+
+    // Add API-key authentication. JWT/Bearer is intentionally unsupported.
+    if (this.config.apiKey) {
+      headers['X-API-Key'] = this.config.apiKey;
+    }
+
+    const ctx: RequestContext = {
+      method: options.method ?? 'GET',
+      endpoint,
+      params: options.params,
+      body: options.body,
+      headers,
+    };
+
+    const dispatch = (index: number): Promise<unknown> => {
+      const middleware = this.middleware[index];
+      if (!middleware) {
+        return this.execute(ctx, options);
+      }
+      return middleware(ctx, () => dispatch(index + 1));
+    };
+
+    return (await dispatch(0)) as T;
+  }
+
+  /**
+   * Run a request (as shaped by middleware) with rate limiting and retries.
+   */
+  private async execute(ctx: RequestContext, options: RequestOptions): Promise<unknown> {
+    const { method, endpoint } = ctx;
+    const policy = this.retryPolicy;
+    const retryable = isRetryEligible(policy, method, endpoint, options.retry);
+
+    let result: unknown;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.scheduler?.acquire(endpoint, options.priority, options.signal);
+        result = await this.send(ctx, options);
+        this.scheduler?.onSuccess(endpoint);
+        break;
+      } catch (error) {
+        if (error instanceof RateLimitError) {
+          this.scheduler?.onRateLimited(endpoint, error.retryAfter);
+        }
+        if (!retryable || options.signal?.aborted || !(error instanceof KlingExError)) throw error;
+        const delay = retryDelay(policy, error, attempt);
+        if (delay === null) throw error;
+        policy.onRetry?.({ method, endpoint, attempt, delay, error });
+        await sleep(delay, options.signal);
+      }
+    }
+    this.checkSchema(ctx, options.schema, result);
+    return result;
+  }
+
+  /**
+   * Validate a response against its schema, reporting any mismatch through
+   * `onSchemaMismatch`. Strict mode throws only for GET: a mutating call has
+   * already taken effect, so its response is returned and only reported.
+   */
+  private checkSchema(ctx: RequestContext, schema: AnySchema | undefined, data: unknown): void {
+    const mode = this.config.validation ?? 'off';
+    if (mode === 'off' || !schema) return;
+
+    const issues = validate(schema, data);
+    if (issues.length === 0) return;
+
+    const mismatch: SchemaMismatch = { method: ctx.method, endpoint: ctx.endpoint, issues };
+    this.config.onSchemaMismatch?.(mismatch);
+    if (mode === 'strict' && ctx.method === 'GET') {
+      throw new SchemaMismatchError(issues, data, { method: ctx.method, endpoint: ctx.endpoint });
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt.
+   */
+  private async send(ctx: RequestContext, options: RequestOptions): Promise<unknown> {
+    const { method, endpoint, body, params, headers } = ctx;
+    const { signal } = options;
+
+    const context: ErrorContext = { method, endpoint };
+
+    if (signal?.aborted) {
+      throw new KlingExError('Request aborted', 'ABORTED', undefined, undefined, context);
+    }
 
     // Build URL with query parameters
     let url = `${this.config.baseUrl}${endpoint}`;
@@ -58,30 +225,24 @@ export class HttpClient {
       }
     }
 
-    // Build headers
-    const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
-      ...headers,
-    };
-
-    // Add API-key authentication. JWT/Bearer is intentionally unsupported.
-    if (this.config.apiKey) {
-      requestHeaders['X-API-Key'] = this.config.apiKey;
-    }
-
-    // Create abort controller for timeout
+    // Create abort controller for timeout, chained to the caller's signal
     const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), this.config.timeout);
+    const timeoutId = setTimeout(() => controller.abort(), options.timeout ?? this.config.timeout);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
-      const response = await fetch(url, {
+      // Resolve the global at call time so late polyfills are picked up.
+      const fetchImpl = this.config.fetch ?? fetch;
+      const response = await fetchImpl(url, {
         method,
-        headers: requestHeaders,
+        headers,
         body: body ? JSON.stringify(body) : undefined,
         signal: controller.signal,
       });
 
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
       // Parse response
       const contentType = response.headers.get('content-type');
@@ -97,12 +258,13 @@ export class HttpClient {
 
       // Handle errors
       if (!response.ok) {
-        this.handleError(response.status, data);
+        this.handleError(response.status, data, response.headers, context);
       }
 
-      return data as T;
+      return data;
     } catch (error) {
       clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
 
       if (error instanceof KlingExError) {
         throw error;
@@ -110,38 +272,89 @@ export class HttpClient {
 
       if (error instanceof Error) {
         if (error.name === 'AbortError') {
-          throw new KlingExError('Request timeout', 'TIMEOUT', 408);
+          if (signal?.aborted) {
+            throw new KlingExError('Request aborted', 'ABORTED', undefined, undefined, context);
+          }
+          throw new TimeoutError('Request timeout', context);
         }
-        throw new KlingExError(error.message, 'NETWORK_ERROR');
+        throw new NetworkError(error.message, context);
       }
 
-      throw new KlingExError('Unknown error occurred', 'UNKNOWN');
+      throw new KlingExError('Unknown error occurred', 'UNKNOWN', undefined, undefined, context);
     }
   }
 
   /**
    * Handle HTTP error responses.
    */
-  private handleError(status: number, data: unknown): never {
+  private handleError(
+    status: number,
+    data: unknown,
+    headers: Headers,
+    request: ErrorContext
+  ): never {
     const errorMessage = this.extractErrorMessage(data);
+    const serverCode = this.extractField(data, 'code', 'error_code');
+    const context: ErrorContext = {
+      ...request,
+      serverCode,
+      requestId: headers.get('x-request-id') ?? this.extractField(data, 'request_id', 'requestId'),
+    };
 
     switch (status) {
       case 401:
-        throw new AuthenticationError(errorMessage);
+        throw new AuthenticationError(errorMessage, context);
+      case 403:
+        throw new PermissionError(errorMessage, this.extractScope(data, errorMessage), context);
+      case 404:
+        throw new NotFoundError(errorMessage, context);
+      case 408:
+        throw new TimeoutError(errorMessage, context);
+      case 409:
+        throw new ConflictError(errorMessage, data, context);
       case 429: {
-        const retryAfter = this.extractRetryAfter(data);
-        throw new RateLimitError(errorMessage, retryAfter);
+        const retryAfter =
+          this.extractRetryAfter(data) ?? parseRetryAfterHeader(headers.get('retry-after'));
+        throw new RateLimitError(errorMessage, retryAfter, context);
       }
       case 400:
-        if (errorMessage.toLowerCase().includes('insufficient')) {
-          throw new InsufficientFundsError(errorMessage);
+        if (`${serverCode ?? ''} ${errorMessage}`.toLowerCase().includes('insufficient')) {
+          throw new InsufficientFundsError(errorMessage, context);
         }
-        throw new ValidationError(errorMessage, data);
+        throw new ValidationError(errorMessage, data, context);
       default:
-        throw new KlingExError(errorMessage, 'API_ERROR', status, data);
+        if (status >= 500) {
+          throw new ServerError(errorMessage, status, data, context);
+        }
+        throw new KlingExError(errorMessage, 'API_ERROR', status, data, context);
     }
   }
 
+  /**
+   * Extract the first present string-ish field from an object response.
+   */
+  private extractField(data: unknown, ...keys: string[]): string | undefined {
+    if (typeof data !== 'object' || data === null) return undefined;
+    const obj = data as Record<string, unknown>;
+    for (const key of keys) {
+      const value = obj[key];
+      if (typeof value === 'string' || typeof value === 'number') {
+        return String(value);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Work out which API-key scope a 403 is about, from an explicit
+   * `required_scope` field or the scope named in the message.
+   */
+  private extractScope(data: unknown, message: string): ApiKeyScope | undefined {
+    const source = this.extractField(data, 'required_scope', 'scope') ?? message;
+    const match = /\b(read|trade|withdraw|liquidity)\b/i.exec(source);
+    return match ? (match[1].toLowerCase() as ApiKeyScope) : undefined;
+  }
+
   /**
    * Extract error message from response.
    */
@@ -169,19 +382,35 @@ export class HttpClient {
 
   // Convenience methods
 
-  async get<T>(endpoint: string, params?: Record<string, string | number | boolean | undefined>): Promise<T> {
-    return this.request<T>(endpoint, { method: 'GET', params });
+  async get<T>(
+    endpoint: string,
+    params?: Record<string, string | number | boolean | undefined>,
+    options: Omit<RequestOptions, 'method' | 'params'> = {}
+  ): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'GET', params });
   }
 
-  async post<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, { method: 'POST', body });
+  async post<T>(
+    endpoint: string,
+    body?: unknown,
+    options: Omit<RequestOptions, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'POST', body });
   }
 
-  async put<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, { method: 'PUT', body });
+  async put<T>(
+    endpoint: string,
+    body?: unknown,
+    options: Omit<RequestOptions, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'PUT', body });
   }
 
-  async delete<T>(endpoint: string, body?: unknown): Promise<T> {
-    return this.request<T>(endpoint, { method: 'DELETE', body });
+  async delete<T>(
+    endpoint: string,
+    body?: unknown,
+    options: Omit<RequestOptions, 'method' | 'body'> = {}
+  ): Promise<T> {
+    return this.request<T>(endpoint, { ...options, method: 'DELETE', body });
   }
 }
@@ -3,6 +3,63 @@ export { KlingEx, KlingEx as default } from './client';
 
 // WebSocket client
 export { KlingExWebSocket } from './websocket';
+export type {
+  WebSocketStreams,
+  ConnectionState,
+  WebSocketEvents,
+  LatencyStats,
+} from './websocket';
+export { MessageStream } from './wsStream';
+export type {
+  MessageStreamEvents,
+  StreamOptions,
+  StreamOverflow,
+  StreamSink,
+} from './wsStream';
+
+// Exact decimal amounts
+export { Amount, parseUnits, formatUnits, decimalPlaces, compareDecimal } from './amount';
+export type { AmountLike, AssetSource, RoundingMode } from './amount';
+
+// Order pre-flight validation
+export { validateOrder } from './orderValidator';
+export type { OrderValidationOptions, ValidatedOrder } from './orderValidator';
+
+// Market metadata
+export { MarketRegistry, normalizePairSymbol } from './registry';
+export type { MarketRegistryOptions, MarketRef, AssetRef } from './registry';
+
+// Managed order book
+export { LocalOrderBook } from './localOrderBook';
+export type { LocalOrderBookEvents, OrderBookResyncReason } from './localOrderBook';
+export { TypedEmitter } from './emitter';
+
+// Order lifecycle tracking
+export { OrderTracker, TrackedOrder } from './orderTracker';
+export type { OrderTrackerEvents } from './orderTracker';
+
+// Live candles
+export { CandleSeries } from './candleSeries';
+export type { CandleSeriesEvents, CandleSeriesOptions } from './candleSeries';
+
+// Order book analytics
+export {
+  midPrice,
+  cumulativeDepth,
+  depth,
+  estimateFill,
+  vwap,
+  maxQuantityWithin,
+  imbalance,
+} from './orderbookAnalytics';
+export type {
+  DepthOptions,
+  DepthSide,
+  OrderbookDepth,
+  CumulativeLevel,
+  FillEstimate,
+  FillOptions,
+} from './orderbookAnalytics';
 
 // Endpoint classes (for advanced usage)
 export { MarketsEndpoint } from './endpoints/markets';
@@ -67,8 +124,24 @@ export type {
   // Config
   KlingExConfig,
   WebSocketOptions,
+  WebSocketFactory,
+  WebSocketLike,
+  HttpMethod,
+  RetryOptions,
+  RetryInfo,
+  RateLimitOptions,
+  RateLimitRoute,
+  TokenBucketOptions,
+  RequestPriority,
+  Middleware,
+  RequestContext,
+  ValidationMode,
+  SchemaIssue,
+  SchemaMismatch,
 
   // Common
+  CallOptions,
+  AmountUnits,
   ApiResponse,
   PaginatedResponse,
 
@@ -88,6 +161,7 @@ export type {
   OrderbookEntry,
   OHLCV,
   Timeframe,
+  PublicTrade,
 
   // Orders
   Order,
@@ -130,13 +204,53 @@ export type {
   WsCancelResult,
   WsPlaceOrderParams,
   WsCancelOrderParams,
+  WsRequestOptions,
+  WsRequestMap,
+  WsOrderbookLevel,
+  WsTickerUpdate,
+  WsOrderbookSnapshot,
+  WsOrderbookUpdate,
+  WsTradeUpdate,
+  WsMarketEvent,
+  WsMarketsListUpdate,
+  WsBalanceEvent,
+  WsOrderEvent,
+  WsTransferEvent,
+  WsDepositEvent,
+  WsWithdrawalEvent,
+  WsUserTradeEvent,
+  WsNotificationEvent,
+  WsAccountEvent,
+  WsUserEventMap,
+  WsUserEvent,
+  WsOhlcvUpdate,
+  WsInvoiceUpdate,
+  WsQrUpdate,
 } from './types';
 
 // Error classes
 export {
   KlingExError,
   AuthenticationError,
+  PermissionError,
+  NotFoundError,
+  ConflictError,
   RateLimitError,
   ValidationError,
   InsufficientFundsError,
+  AmountError,
+  UnknownMarketError,
+  UnknownAssetError,
+  OrderValidationError,
+  ServerError,
+  TimeoutError,
+  NetworkError,
+  SchemaMismatchError,
+  StreamDisconnectedError,
+  OrderOutcomeUnknownError,
+  StreamOverflowError,
+  OrderNotFilledError,
+  OrderLostError,
+  NotConnectedError,
 } from './types';
+export type { ErrorContext, ApiKeyScope, OrderRule } from './types';
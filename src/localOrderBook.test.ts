@@ -0,0 +1,166 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KlingEx } from './client';
+import { LocalOrderBook } from './localOrderBook';
+import type { OrderBookResyncReason } from './localOrderBook';
+import type { WsOrderbookLevel } from './types';
+import { fakeApi } from './testing/fakeApi';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+import type { FakeSocket } from './testing/fakeSocket';
+
+type Levels = Array<[string, string]>;
+
+const market = { id: 1, base_asset_symbol: 'BTC', quote_asset_symbol: 'USDT' };
+
+/**
+ * A client over a fake REST API and socket. Each `/api/orderbook` request
+ * waits for the spec to `respond()`, so frames can arrive meanwhile.
+ */
+function exchange() {
+  const pending: Array<(book: object) => void> = [];
+  const api = fakeApi({
+    'GET /api/markets': [market],
+    'GET /api/assets': { assets: [] },
+    'GET /api/orderbook': () => new Promise((resolve) => pending.push(resolve)),
+  });
+  const { webSocketFactory, latest } = fakeSockets();
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch, webSocketFactory });
+  return {
+    client,
+    latest,
+    snapshots: () => api.requests.filter((r) => r.path === '/api/orderbook').length,
+    /** Answer the oldest snapshot request, once it has been made. */
+    respond: async (bids: Levels, asks: Levels) => {
+      await vi.waitFor(() => expect(pending.length).toBeGreaterThan(0));
+      const answer = pending.shift();
+      answer?.({ trading_pair_id: 1, base_symbol: 'BTC', quote_symbol: 'USDT', bids, asks });
+    },
+  };
+}
+
+/** Connect, then create a book seeded with `bids` and `asks`. */
+async function openBook(ex: ReturnType<typeof exchange>, bids: Levels, asks: Levels) {
+  const socket = await connectFake(ex.client.ws, ex.latest);
+  const creating = ex.client.createOrderBook('btc/usdt');
+  await ex.respond(bids, asks);
+  const book = await creating;
+  const resyncs: OrderBookResyncReason[] = [];
+  book.on('resync', (reason) => resyncs.push(reason));
+  return { book, socket, resyncs };
+}
+
+function update(
+  socket: FakeSocket,
+  sequence: number,
+  bids: WsOrderbookLevel[] = [],
+  asks: WsOrderbookLevel[] = []
+): void {
+  socket.push({ type: 'orderbook_update', market: 'BTC-USDT', sequence, bids, asks });
+}
+
+const levels = (entries: Array<{ price: string; quantity: string }>) =>
+  entries.map((e) => [e.price, e.quantity]);
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('LocalOrderBook', () => {
+  it('seeds from REST and applies incremental updates', async () => {
+    const ex = exchange();
+    const { book, socket } = await openBook(ex, [['100', '1']], [['101', '2']]);
+    expect(socket.actions('subscribe')).toEqual([{ action: 'subscribe', market: 'BTC-USDT' }]);
+
+    update(socket, 1, [['99.50', '3'], ['100', '0']], [[101.0, 1e-7]]);
+    expect(levels(book.bids())).toEqual([['99.5', '3']]);
+    expect(levels(book.asks())).toEqual([['101', '0.0000001']]);
+    expect(book.spread).toBe('1.5');
+    expect(book.mid).toBe('100.25');
+  });
+
+  it('keys a zero price as "0" however it is written', async () => {
+    const ex = exchange();
+    const { book, socket } = await openBook(ex, [['00.0', '1']], [['1', '1']]);
+    expect(levels(book.bids())).toEqual([['0', '1']]);
+
+    update(socket, 1, [['.0', '0']]);
+    expect(book.bids()).toEqual([]);
+  });
+
+  it('re-syncs on a sequence gap and replays frames received meanwhile', async () => {
+    const ex = exchange();
+    const { book, socket, resyncs } = await openBook(ex, [['100', '1']], [['101', '1']]);
+    update(socket, 5, [['100', '2']]);
+    update(socket, 6, [['100', '3']]);
+    expect(resyncs).toEqual([]);
+
+    // Sequence 7 was lost.
+    update(socket, 8, [['100', '9']]);
+    expect(resyncs).toEqual(['gap']);
+    expect(levels(book.bids())).toEqual([['100', '3']]);
+
+    update(socket, 20, [['99', '1']]);
+    // Joins the re-sync in flight rather than starting another.
+    const resynced = book.resync();
+    await ex.respond([['100', '4']], [['101', '1']]);
+    await resynced;
+    expect(levels(book.bids())).toEqual([
+      ['100', '4'],
+      ['99', '1'],
+    ]);
+    expect(ex.snapshots()).toBe(2);
+
+    update(socket, 21, [['98', '1']]);
+    expect(resyncs).toEqual(['gap']);
+    expect(book.bids()).toHaveLength(3);
+  });
+
+  it('re-seeds when frames buffered during the snapshot have a gap', async () => {
+    const ex = exchange();
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const book = new LocalOrderBook(ex.client.ws, ex.client.markets, 'BTC-USDT', 1);
+    const resyncs: OrderBookResyncReason[] = [];
+    book.on('resync', (reason) => resyncs.push(reason));
+    const starting = book.start();
+    update(socket, 1, [['99', '1']]);
+    update(socket, 3, [['98', '1']]);
+
+    await ex.respond([['100', '1']], [['101', '1']]);
+    await vi.waitFor(() => expect(ex.snapshots()).toBe(2));
+    expect(resyncs).toEqual(['gap']);
+    update(socket, 4, [['97', '1']]);
+    await ex.respond([['100', '2']], [['101', '1']]);
+    await starting;
+
+    expect(levels(book.bids())).toEqual([
+      ['100', '2'],
+      ['97', '1'],
+    ]);
+    update(socket, 5, [['96', '1']]);
+    expect(book.bids()).toHaveLength(3);
+    expect(resyncs).toEqual(['gap']);
+  });
+
+  it('re-syncs on a crossed book and after a reconnect', async () => {
+    vi.useFakeTimers();
+    const ex = exchange();
+    const { book, socket, resyncs } = await openBook(ex, [['100', '1']], [['101', '1']]);
+
+    update(socket, 1, [['102', '1']]);
+    expect(resyncs).toEqual(['crossed']);
+    await Promise.all([book.resync(), ex.respond([['100', '1']], [['101', '1']])]);
+
+    socket.drop();
+    await vi.advanceTimersByTimeAsync(5000);
+    const next = ex.latest();
+    expect(next).not.toBe(socket);
+    next.open();
+    next.authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(resyncs).toEqual(['crossed', 'reconnect']);
+    expect(next.actions('subscribe')).toEqual([{ action: 'subscribe', market: 'BTC-USDT' }]);
+
+    await Promise.all([book.resync(), ex.respond([['100', '5']], [['101', '1']])]);
+    expect(levels(book.bids())).toEqual([['100', '5']]);
+    expect(ex.snapshots()).toBe(3);
+  });
+});
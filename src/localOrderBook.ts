@@ -0,0 +1,281 @@
+import { Amount, compareDecimal, decimalPlaces, toDecimalString } from './amount';
+import { TypedEmitter } from './emitter';
+import type { MarketsEndpoint } from './endpoints/markets';
+import type { KlingExWebSocket } from './websocket';
+import type {
+  Orderbook,
+  OrderbookEntry,
+  WsOrderbookLevel,
+  WsOrderbookSnapshot,
+  WsOrderbookUpdate,
+} from './types';
+
+/** Why a `LocalOrderBook` re-downloaded its state from REST. */
+export type OrderBookResyncReason = 'reconnect' | 'crossed' | 'gap' | 'manual';
+
+export interface LocalOrderBookEvents {
+  /** The book changed (seed, snapshot, incremental update or re-sync). */
+  change: [book: LocalOrderBook];
+  /** A re-sync from REST started. */
+  resync: [reason: OrderBookResyncReason];
+  /** A re-sync failed, or REST returned a crossed book. */
+  error: [error: Error];
+}
+
+type OrderbookFrame = WsOrderbookSnapshot | WsOrderbookUpdate;
+
+/** Canonical map key for a price: `"100.50"` reads as `"100.5"`, `"0.0"` as `"0"`. */
+function priceKey(price: string | number): string {
+  const s = toDecimalString(price);
+  return Amount.parse(s, decimalPlaces(s)).toString();
+}
+
+function isZero(quantity: string): boolean {
+  return compareDecimal(quantity, '0') === 0;
+}
+
+function sortLevels(levels: Map<string, string>, descending: boolean): OrderbookEntry[] {
+  const entries = [...levels].map(([price, quantity]) => ({ price, quantity }));
+  const dir = descending ? -1 : 1;
+  return entries.sort((a, b) => dir * compareDecimal(a.price, b.price));
+}
+
+/**
+ * Order book for one market kept in sync from the WebSocket `orderbook`
+ * stream. Seeds itself from `markets.orderbook()`, applies full snapshots
+ * and incremental updates (a zero quantity removes a level), and re-syncs
+ * from REST after a reconnect, a sequence gap, or a crossed book.
+ *
+ * Frames that arrive while a REST snapshot is in flight are buffered and
+ * replayed on top of it; a sequence gap among them fetches the snapshot
+ * again. All prices and quantities stay decimal strings.
+ *
+ * @example
+ * const book = await client.createOrderBook('BTC-USDT');
+ * book.on('change', (b) => console.log(b.bestBid?.price, b.bestAsk?.price, b.spread));
+ * await client.ws.connect();
+ * // later
+ * book.stop();
+ */
+export class LocalOrderBook extends TypedEmitter<LocalOrderBookEvents> {
+  private bidLevels = new Map<string, string>();
+  private askLevels = new Map<string, string>();
+  private sortedBids: OrderbookEntry[] | null = null;
+  private sortedAsks: OrderbookEntry[] | null = null;
+  private sequence: number | undefined;
+  /** Non-null while a REST snapshot is in flight. */
+  private buffer: OrderbookFrame[] | null = null;
+  private resyncing: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private offReconnect: (() => void) | null = null;
+  private baseSymbol = '';
+  private quoteSymbol = '';
+  private _ready = false;
+
+  /**
+   * @param symbol - WebSocket market symbol, e.g. `"BTC-USDT"`.
+   * @param marketId - Trading pair ID used for the REST snapshot.
+   */
+  constructor(
+    private ws: KlingExWebSocket,
+    private markets: MarketsEndpoint,
+    readonly symbol: string,
+    readonly marketId: number
+  ) {
+    super();
+  }
+
+  /**
+   * Subscribe to the market and seed from REST. Updates start flowing once
+   * the WebSocket is connected.
+   */
+  async start(): Promise<void> {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.ws.orderbook(this.symbol, (frame) => this.onFrame(frame));
+    this.offReconnect = this.ws.onReconnect(() => {
+      void this.resync('reconnect');
+    });
+    try {
+      await this.seed();
+    } catch (err) {
+      this.stop();
+      throw err;
+    }
+  }
+
+  /** Unsubscribe and stop tracking. The last state stays readable. */
+  stop(): void {
+    this.unsubscribe?.();
+    this.offReconnect?.();
+    this.unsubscribe = null;
+    this.offReconnect = null;
+    this.buffer = null;
+  }
+
+  /**
+   * Re-download the book from REST, replaying frames received meanwhile.
+   * Concurrent calls share one request. Failures are emitted as `error`.
+   */
+  resync(reason: OrderBookResyncReason = 'manual'): Promise<void> {
+    if (!this.resyncing) {
+      this.emit('resync', reason);
+      this.resyncing = this.seed()
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        })
+        .finally(() => {
+          this.resyncing = null;
+        });
+    }
+    return this.resyncing;
+  }
+
+  /** True once the initial REST snapshot has been applied. */
+  get ready(): boolean {
+    return this._ready;
+  }
+
+  /** Bids, best (highest) first. */
+  bids(depth?: number): OrderbookEntry[] {
+    this.sortedBids ??= sortLevels(this.bidLevels, true);
+    return depth === undefined ? this.sortedBids.slice() : this.sortedBids.slice(0, depth);
+  }
+
+  /** Asks, best (lowest) first. */
+  asks(depth?: number): OrderbookEntry[] {
+    this.sortedAsks ??= sortLevels(this.askLevels, false);
+    return depth === undefined ? this.sortedAsks.slice() : this.sortedAsks.slice(0, depth);
+  }
+
+  get bestBid(): OrderbookEntry | undefined {
+    return this.bids(1)[0];
+  }
+
+  get bestAsk(): OrderbookEntry | undefined {
+    return this.asks(1)[0];
+  }
+
+  /** Best ask minus best bid, or `undefined` if either side is empty. */
+  get spread(): string | undefined {
+    const bid = this.bestBid;
+    const ask = this.bestAsk;
+    if (!bid || !ask) return undefined;
+    const scale = Math.max(decimalPlaces(bid.price), decimalPlaces(ask.price));
+    return Amount.parse(ask.price, scale).sub(bid.price).toString();
+  }
+
+  /** Midpoint of best bid and ask, or `undefined` if either side is empty. */
+  get mid(): string | undefined {
+    const bid = this.bestBid;
+    const ask = this.bestAsk;
+    if (!bid || !ask) return undefined;
+    // One extra digit makes halving exact.
+    const scale = Math.max(decimalPlaces(bid.price), decimalPlaces(ask.price)) + 1;
+    return Amount.parse(ask.price, scale).add(bid.price).div(2n).toString();
+  }
+
+  /** Current state in the same shape as `markets.orderbook()`. */
+  toOrderbook(depth?: number): Orderbook {
+    return {
+      trading_pair_id: this.marketId,
+      base_symbol: this.baseSymbol,
+      quote_symbol: this.quoteSymbol,
+      bids: this.bids(depth),
+      asks: this.asks(depth),
+    };
+  }
+
+  private async seed(): Promise<void> {
+    this.buffer = [];
+    let book: Orderbook;
+    try {
+      book = await this.markets.orderbook(this.marketId);
+    } catch (err) {
+      this.buffer = null;
+      throw err;
+    }
+    const buffered = this.buffer ?? [];
+    this.buffer = null;
+
+    this.baseSymbol = book.base_symbol;
+    this.quoteSymbol = book.quote_symbol;
+    this.replaceSide(this.bidLevels, book.bids.map((l) => [l.price, l.quantity]));
+    this.replaceSide(this.askLevels, book.asks.map((l) => [l.price, l.quantity]));
+    this.sequence = undefined;
+    for (const frame of buffered) {
+      if (!this.apply(frame)) {
+        // Frames were lost while the snapshot was in flight: start over,
+        // as for a gap in live updates.
+        this.emit('resync', 'gap');
+        return this.seed();
+      }
+    }
+    this._ready = true;
+
+    if (this.isCrossed()) {
+      this.emit('error', new Error(`Order book for ${this.symbol} is crossed after re-sync`));
+    }
+    this.emit('change', this);
+  }
+
+  private onFrame(frame: OrderbookFrame): void {
+    if (this.buffer) {
+      this.buffer.push(frame);
+      return;
+    }
+    if (!this._ready || this.resyncing) return;
+    if (!this.apply(frame)) {
+      void this.resync('gap');
+      return;
+    }
+    if (this.isCrossed()) {
+      void this.resync('crossed');
+      return;
+    }
+    this.emit('change', this);
+  }
+
+  /** Apply one frame. Returns false if a sequence gap was detected. */
+  private apply(frame: OrderbookFrame): boolean {
+    const incremental = frame.type === 'orderbook_update';
+    if (typeof frame.sequence === 'number') {
+      if (incremental && this.sequence !== undefined && frame.sequence !== this.sequence + 1) {
+        return false;
+      }
+      this.sequence = frame.sequence;
+    }
+
+    if (incremental) {
+      this.updateSide(this.bidLevels, frame.bids ?? []);
+      this.updateSide(this.askLevels, frame.asks ?? []);
+    } else {
+      this.replaceSide(this.bidLevels, frame.bids ?? []);
+      this.replaceSide(this.askLevels, frame.asks ?? []);
+    }
+    return true;
+  }
+
+  private replaceSide(side: Map<string, string>, levels: WsOrderbookLevel[]): void {
+    side.clear();
+    this.updateSide(side, levels);
+  }
+
+  private updateSide(side: Map<string, string>, levels: WsOrderbookLevel[]): void {
+    for (const [price, quantity] of levels) {
+      const qty = toDecimalString(quantity);
+      if (isZero(qty)) {
+        side.delete(priceKey(price));
+      } else {
+        side.set(priceKey(price), qty);
+      }
+    }
+    this.sortedBids = null;
+    this.sortedAsks = null;
+  }
+
+  private isCrossed(): boolean {
+    const bid = this.bestBid;
+    const ask = this.bestAsk;
+    return !!bid && !!ask && compareDecimal(bid.price, ask.price) >= 0;
+  }
+}
@@ -0,0 +1,184 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KlingEx } from './client';
+import { TrackedOrder } from './orderTracker';
+import { OrderLostError, OrderNotFilledError } from './types';
+import type { OrderHistoryEntry, OrderStatus } from './types';
+import { fakeApi } from './testing/fakeApi';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+
+function entry(id: string, status: OrderStatus, filled = '0'): OrderHistoryEntry {
+  return {
+    id,
+    trading_pair_id: 1,
+    side: 'buy',
+    status,
+    price: '100',
+    amount: '10',
+    filled_amount: filled,
+  } as OrderHistoryEntry;
+}
+
+/**
+ * A client whose `/api/orders-history` serves `all` at the time of each
+ * request, honouring `status`, `search`, `limit` and `offset`.
+ */
+function exchange(all: OrderHistoryEntry[]) {
+  const api = fakeApi({
+    'GET /api/orders-history': ({ query }) => {
+      const matching = all.filter(
+        (o) =>
+          (query.status === undefined || o.status === query.status) &&
+          (query.search === undefined || o.id.includes(query.search))
+      );
+      const offset = Number(query.offset ?? 0);
+      const limit = Number(query.limit ?? 50);
+      const orders = matching.slice(offset, offset + limit);
+      return { orders, total: matching.length, limit, offset };
+    },
+  });
+  const { webSocketFactory, latest } = fakeSockets();
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch, webSocketFactory });
+  return { client, latest, requests: api.requests };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('TrackedOrder', () => {
+  it('never moves status or fill backwards', () => {
+    const order = new TrackedOrder('1');
+    expect(order.apply({ status: 'partial', amount: '10', filledAmount: '4' })).toBe(true);
+    expect(order.apply({ status: 'pending', filledAmount: '2' })).toBe(false);
+    expect(order.status).toBe('partial');
+    expect(order.filledAmount).toBe('4');
+    expect(order.remaining).toBe('6');
+  });
+
+  it('treats a fill seen before order_partial as partial', () => {
+    const order = new TrackedOrder('1');
+    order.apply({ status: 'pending', filledAmount: '1' });
+    expect(order.status).toBe('partial');
+  });
+
+  it('settles once and ignores later updates', async () => {
+    const order = new TrackedOrder('1');
+    order.apply({ amount: '10' });
+    order.apply({ status: 'filled' });
+    expect(order.apply({ status: 'cancelled' })).toBe(false);
+    await expect(order.waitForFill()).resolves.toBe(order);
+    // `order_filled` without `filled_amount` means all of it.
+    expect(order.filledAmount).toBe('10');
+  });
+
+  it('rejects waitForFill when the order ends unfilled', async () => {
+    const order = new TrackedOrder('1');
+    order.apply({ status: 'cancelled', filledAmount: '3' });
+    await expect(order.waitForFill()).rejects.toBeInstanceOf(OrderNotFilledError);
+  });
+});
+
+describe('OrderTracker', () => {
+  it('loads every page of open orders on start', async () => {
+    const open = Array.from({ length: 150 }, (_, i) => entry(`p${i}`, 'pending'));
+    const ex = exchange([...open, entry('x', 'partial', '2'), entry('y', 'filled')]);
+    const tracker = await ex.client.createOrderTracker();
+
+    expect(tracker.open()).toHaveLength(151);
+    expect(tracker.get('x')?.status).toBe('partial');
+    expect(tracker.get('y')).toBeUndefined();
+    expect(ex.requests.map((r) => r.query)).toEqual([
+      { status: 'pending', limit: '100', offset: '0' },
+      { status: 'pending', limit: '100', offset: '100' },
+      { status: 'partial', limit: '100', offset: '0' },
+    ]);
+  });
+
+  it('follows order events and ignores late ones for a settled order', async () => {
+    const ex = exchange([]);
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const tracker = await ex.client.createOrderTracker();
+    expect(socket.actions('subscribe')).toEqual([{ action: 'subscribe', type: 'orders' }]);
+    const terminal = vi.fn();
+    tracker.on('terminal', terminal);
+
+    const order = tracker.track('1');
+    socket.push({ type: 'order_partial', id: '1', amount: '10', filled_amount: '4' });
+    expect(order.filledAmount).toBe('4');
+    socket.push({ type: 'order_filled', id: '1', amount: '10' });
+    socket.push({ type: 'order_updated', id: '1', status: 'pending' });
+
+    expect(order.status).toBe('filled');
+    expect(order.filledAmount).toBe('10');
+    expect(terminal).toHaveBeenCalledTimes(1);
+    expect(tracker.open()).toEqual([]);
+    expect(tracker.get('1')).toBe(order);
+  });
+
+  it('tracks an order placed over the WebSocket', async () => {
+    const ex = exchange([]);
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const tracker = await ex.client.createOrderTracker();
+    const placing = tracker.placeOrder({
+      symbol: 'BTC-USDT',
+      tradingPairId: 1,
+      side: 'BUY',
+      quantity: '1',
+      price: '100',
+    });
+    const [request] = socket.actions('place_order');
+    const { requestId } = request;
+    socket.push({ type: 'order_result', requestId, success: true, orderId: '9' });
+    const order = await placing;
+
+    expect(order).toMatchObject({ id: '9', tradingPairId: 1, side: 'buy' });
+    const filled = order.waitForFill();
+    socket.push({ type: 'order_filled', id: '9', amount: '1' });
+    await expect(filled).resolves.toBe(order);
+  });
+
+  it('recovers orders that settled while disconnected', async () => {
+    vi.useFakeTimers();
+    const all = [entry('1', 'pending'), entry('2', 'pending')];
+    const ex = exchange(all);
+    const socket = await connectFake(ex.client.ws, ex.latest);
+    const tracker = await ex.client.createOrderTracker();
+    const first = tracker.get('1');
+
+    socket.drop();
+    all[0] = entry('1', 'filled', '10');
+    all[1] = entry('2', 'cancelled', '4');
+    await vi.advanceTimersByTimeAsync(5000);
+    ex.latest().open();
+    ex.latest().authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    // Joins the reconcile the reconnect started.
+    await tracker.reconcile();
+
+    expect(first?.status).toBe('filled');
+    expect(tracker.get('2')?.filledAmount).toBe('4');
+    expect(tracker.open()).toEqual([]);
+  });
+
+  it('reports orders found nowhere as lost', async () => {
+    const all = [entry('1', 'pending')];
+    const ex = exchange(all);
+    const tracker = await ex.client.createOrderTracker();
+    const order = tracker.track('1');
+    const waiting = order.waitForTerminal();
+    const lost = vi.fn();
+    tracker.on('lost', lost);
+
+    all.length = 0;
+    await tracker.reconcile();
+
+    await expect(waiting).rejects.toBeInstanceOf(OrderLostError);
+    expect(order.isLost).toBe(true);
+    expect(lost).toHaveBeenCalledWith(order, expect.any(OrderLostError));
+    const lookup = ex.requests[ex.requests.length - 1];
+    expect(lookup.query).toEqual({ search: '1', limit: '50', offset: '0' });
+    expect(tracker.open()).toEqual([]);
+    // Lost orders stay lost even if an event turns up later.
+    expect(order.apply({ status: 'filled' })).toBe(false);
+  });
+});
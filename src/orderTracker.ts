@@ -0,0 +1,479 @@
+import { Amount, compareDecimal, decimalPlaces } from './amount';
+import { TypedEmitter } from './emitter';
+import type { OrdersEndpoint } from './endpoints/orders';
+import type { KlingExWebSocket } from './websocket';
+import { OrderLostError, OrderNotFilledError, TimeoutError } from './types';
+import type {
+  CallOptions,
+  Order,
+  OrderHistoryEntry,
+  OrderStatus,
+  OrdersHistoryParams,
+  SubmitOrderParams,
+  WsOrderEvent,
+  WsPlaceOrderParams,
+  WsRequestOptions,
+} from './types';
+
+/** Orders only move forward: pending → partial → a terminal status. */
+const RANK: Record<OrderStatus, number> = {
+  pending: 0,
+  partial: 1,
+  filled: 2,
+  cancelled: 2,
+  rejected: 2,
+};
+
+/** Status implied by each order event; `order_updated` carries its own. */
+const EVENT_STATUS: Partial<Record<WsOrderEvent['type'], OrderStatus>> = {
+  order_created: 'pending',
+  order_placed: 'pending',
+  order_partial: 'partial',
+  order_filled: 'filled',
+  order_cancelled: 'cancelled',
+  order_rejected: 'rejected',
+};
+
+/** Settled orders kept so late `track()` calls still find them. */
+const RECENT_LIMIT = 500;
+
+/** Order history page size (the backend's maximum). */
+const PAGE_SIZE = 100;
+
+/** History pages scanned for settled orders before searching them by ID. */
+const MAX_HISTORY_PAGES = 10;
+
+const OPEN_STATUSES: OrderStatus[] = ['pending', 'partial'];
+
+export interface OrderTrackerEvents {
+  /** An order's status or fill progress changed. */
+  update: [order: TrackedOrder];
+  /** An order was filled, cancelled or rejected. */
+  terminal: [order: TrackedOrder];
+  /** A reconcile found an order neither open nor in history; its waiters reject. */
+  lost: [order: TrackedOrder, error: OrderLostError];
+  /** A reconcile against REST failed. */
+  error: [error: Error];
+}
+
+/** Fields an update may carry; absent fields are left unchanged. */
+export interface OrderUpdate {
+  status?: OrderStatus;
+  tradingPairId?: number;
+  side?: 'buy' | 'sell';
+  price?: string;
+  amount?: string;
+  filledAmount?: string;
+}
+
+function isTerminal(status: OrderStatus): boolean {
+  return RANK[status] === 2;
+}
+
+function fromOrder(order: Order | OrderHistoryEntry): OrderUpdate {
+  return {
+    status: order.status,
+    tradingPairId: order.trading_pair_id,
+    side: order.side,
+    price: order.price ?? undefined,
+    amount: order.amount,
+    filledAmount: order.filled_amount,
+  };
+}
+
+function fromEvent(event: WsOrderEvent): OrderUpdate {
+  return {
+    status: event.type === 'order_updated' ? event.status : EVENT_STATUS[event.type],
+    tradingPairId: event.trading_pair_id,
+    side: event.side,
+    price: event.price,
+    amount: event.amount,
+    filledAmount: event.filled_amount,
+  };
+}
+
+/**
+ * Live view of one order. Status and fill progress only move forward, so
+ * late or duplicated events can't regress it. Amounts are as sent by the
+ * server (base units).
+ */
+export class TrackedOrder {
+  private _status: OrderStatus = 'pending';
+  private _filledAmount = '0';
+  private _amount: string | undefined;
+  private _price: string | undefined;
+  private _side: 'buy' | 'sell' | undefined;
+  private _tradingPairId: number | undefined;
+  private _lost = false;
+  private settle!: (order: TrackedOrder) => void;
+  private fail!: (error: Error) => void;
+  private settled: Promise<TrackedOrder>;
+
+  constructor(readonly id: string) {
+    this.settled = new Promise((resolve, reject) => {
+      this.settle = resolve;
+      this.fail = reject;
+    });
+    // Rejections reach callers of the wait methods; nobody else.
+    this.settled.catch(() => undefined);
+  }
+
+  get status(): OrderStatus {
+    return this._status;
+  }
+
+  /** True once filled, cancelled or rejected. */
+  get isTerminal(): boolean {
+    return isTerminal(this._status);
+  }
+
+  /** True if a reconcile found the order neither open nor in history. */
+  get isLost(): boolean {
+    return this._lost;
+  }
+
+  get tradingPairId(): number | undefined {
+    return this._tradingPairId;
+  }
+
+  get side(): 'buy' | 'sell' | undefined {
+    return this._side;
+  }
+
+  get price(): string | undefined {
+    return this._price;
+  }
+
+  get amount(): string | undefined {
+    return this._amount;
+  }
+
+  get filledAmount(): string {
+    return this._filledAmount;
+  }
+
+  /** Unfilled quantity, once the order size is known. */
+  get remaining(): string | undefined {
+    if (this._amount === undefined) return undefined;
+    const scale = Math.max(decimalPlaces(this._amount), decimalPlaces(this._filledAmount));
+    return Amount.parse(this._amount, scale).sub(this._filledAmount).toString();
+  }
+
+  /** Filled fraction in `[0, 1]`, once the order size is known. */
+  get fillRatio(): number | undefined {
+    if (this._amount === undefined || Number(this._amount) === 0) return undefined;
+    return Math.min(1, Number(this._filledAmount) / Number(this._amount));
+  }
+
+  /**
+   * Resolves when the order is filled, cancelled or rejected. With
+   * `timeout` (ms), rejects with `TimeoutError` if it hasn't settled by then.
+   * Rejects with `OrderLostError` if the order turns out to be lost.
+   */
+  waitForTerminal(timeout?: number): Promise<TrackedOrder> {
+    if (timeout === undefined) return this.settled;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        reject(new TimeoutError(`Order ${this.id} did not settle within ${timeout}ms`));
+      }, timeout);
+      this.settled.then(
+        (order) => {
+          clearTimeout(timer);
+          resolve(order);
+        },
+        (err) => {
+          clearTimeout(timer);
+          reject(err);
+        }
+      );
+    });
+  }
+
+  /**
+   * Resolves when the order is completely filled. Rejects with
+   * `OrderNotFilledError` if it ends cancelled or rejected, and with
+   * `TimeoutError` if `timeout` (ms) passes first.
+   */
+  async waitForFill(timeout?: number): Promise<TrackedOrder> {
+    const order = await this.waitForTerminal(timeout);
+    if (order.status !== 'filled') {
+      throw new OrderNotFilledError(order.id, order.status, order.filledAmount);
+    }
+    return order;
+  }
+
+  /**
+   * Merge an update. Returns true if anything changed.
+   * @internal Called by `OrderTracker`.
+   */
+  apply(update: OrderUpdate): boolean {
+    if (this.isTerminal || this._lost) return false;
+    let changed = false;
+    if (update.tradingPairId !== undefined && update.tradingPairId !== this._tradingPairId) {
+      this._tradingPairId = update.tradingPairId;
+      changed = true;
+    }
+    if (update.side !== undefined && update.side !== this._side) {
+      this._side = update.side;
+      changed = true;
+    }
+    if (update.price !== undefined && update.price !== this._price) {
+      this._price = update.price;
+      changed = true;
+    }
+    if (update.amount !== undefined && update.amount !== this._amount) {
+      this._amount = update.amount;
+      changed = true;
+    }
+    if (
+      update.filledAmount !== undefined &&
+      compareDecimal(update.filledAmount, this._filledAmount) > 0
+    ) {
+      this._filledAmount = update.filledAmount;
+      changed = true;
+    }
+
+    let status = update.status;
+    // A fill seen before its `order_partial` event still means partial.
+    if ((status ?? this._status) === 'pending' && compareDecimal(this._filledAmount, '0') > 0) {
+      status = 'partial';
+    }
+    if (status !== undefined && RANK[status] > RANK[this._status]) {
+      this._status = status;
+      changed = true;
+    }
+
+    if (this.isTerminal) {
+      // `order_filled` frames may omit `filled_amount`.
+      if (this._status === 'filled' && this._amount !== undefined) {
+        this._filledAmount = this._amount;
+      }
+      this.settle(this);
+    }
+    return changed;
+  }
+
+  /**
+   * Give up on the order, rejecting its waiters with `error`. Returns false
+   * if it had already settled.
+   * @internal Called by `OrderTracker`.
+   */
+  markLost(error: OrderLostError): boolean {
+    if (this.isTerminal || this._lost) return false;
+    this._lost = true;
+    this.fail(error);
+    return true;
+  }
+}
+
+/**
+ * Tracks your orders from the user `orders` WebSocket channel, with REST
+ * as the source of truth: open orders are loaded on start and re-checked
+ * after every reconnect, so events missed while disconnected are recovered.
+ * Orders that settled meanwhile are found by paging order history; one
+ * that is nowhere to be found is reported as `lost`.
+ *
+ * @example
+ * const tracker = await client.createOrderTracker();
+ * const order = await tracker.submit({
+ *   symbol: 'BTC-USDT', side: 'BUY', quantity: '0.1', price: '50000',
+ * });
+ * order.waitForTerminal().then((o) => console.log(o.status, o.filledAmount));
+ * await order.waitForFill(60_000);
+ */
+export class OrderTracker extends TypedEmitter<OrderTrackerEvents> {
+  /** Orders not yet settled, by ID. */
+  private active = new Map<string, TrackedOrder>();
+  /** Recently settled orders, oldest first. */
+  private recent = new Map<string, TrackedOrder>();
+  private reconciling: Promise<void> | null = null;
+  private unsubscribe: (() => void) | null = null;
+  private offReconnect: (() => void) | null = null;
+
+  constructor(
+    private orders: OrdersEndpoint,
+    private ws: KlingExWebSocket
+  ) {
+    super();
+  }
+
+  /**
+   * Subscribe to order events and load open orders from REST. Events start
+   * flowing once the WebSocket is connected.
+   */
+  async start(options?: CallOptions): Promise<void> {
+    if (this.unsubscribe) return;
+    this.unsubscribe = this.ws.userOrders((event) => this.onEvent(event));
+    this.offReconnect = this.ws.onReconnect(() => {
+      void this.reconcile();
+    });
+    try {
+      await this.sync(options);
+    } catch (err) {
+      this.stop();
+      throw err;
+    }
+  }
+
+  /** Unsubscribe. Handles keep their last state. */
+  stop(): void {
+    this.unsubscribe?.();
+    this.offReconnect?.();
+    this.unsubscribe = null;
+    this.offReconnect = null;
+  }
+
+  /** Submit over REST and track the new order. */
+  async submit(params: SubmitOrderParams, options?: CallOptions): Promise<TrackedOrder> {
+    const response = await this.orders.submit(params, options);
+    const order = this.track(response.order_id);
+    this.applyUpdate(order, { side: params.side.toLowerCase() === 'buy' ? 'buy' : 'sell' });
+    return order;
+  }
+
+  /** Place over the WebSocket and track the new order. */
+  async placeOrder(params: WsPlaceOrderParams, options?: WsRequestOptions): Promise<TrackedOrder> {
+    const result = await this.ws.placeOrder(params, options);
+    if (!result.orderId) {
+      throw new Error('place_order succeeded without an orderId');
+    }
+    const order = this.track(result.orderId);
+    this.applyUpdate(order, {
+      tradingPairId: params.tradingPairId,
+      side: params.side.toLowerCase() === 'buy' ? 'buy' : 'sell',
+    });
+    return order;
+  }
+
+  /**
+   * Handle for `orderId`, created if it isn't tracked yet (e.g. an order
+   * placed elsewhere). Events that arrived before this call are kept.
+   */
+  track(orderId: string): TrackedOrder {
+    let order = this.get(orderId);
+    if (!order) {
+      order = new TrackedOrder(orderId);
+      this.active.set(orderId, order);
+    }
+    return order;
+  }
+
+  /** Tracked or recently settled order, if known. */
+  get(orderId: string): TrackedOrder | undefined {
+    return this.active.get(orderId) ?? this.recent.get(orderId);
+  }
+
+  /** Orders not yet filled, cancelled or rejected. */
+  open(): TrackedOrder[] {
+    return [...this.active.values()];
+  }
+
+  /**
+   * Re-check tracked orders against REST. Runs automatically after each
+   * reconnect; concurrent calls share one pass. Failures are emitted as
+   * `error`.
+   */
+  reconcile(options?: CallOptions): Promise<void> {
+    if (!this.reconciling) {
+      this.reconciling = this.sync(options)
+        .catch((err) => {
+          this.emit('error', err instanceof Error ? err : new Error(String(err)));
+        })
+        .finally(() => {
+          this.reconciling = null;
+        });
+    }
+    return this.reconciling;
+  }
+
+  private async sync(options?: CallOptions): Promise<void> {
+    // Orders tracked after this point are newer than the listing below.
+    const tracked = [...this.active.values()];
+    const open = new Set<string>();
+    for (const status of OPEN_STATUSES) {
+      await this.pageHistory({ status }, options, Infinity, (entry) => {
+        open.add(entry.id);
+        this.applyUpdate(this.track(entry.id), fromOrder(entry));
+        return false;
+      });
+    }
+
+    // Anything else we were tracking changed state while we weren't looking.
+    const missing = new Map<string, TrackedOrder>();
+    for (const order of tracked) {
+      if (!open.has(order.id) && !order.isTerminal) missing.set(order.id, order);
+    }
+    if (missing.size > 0) {
+      await this.pageHistory({}, options, MAX_HISTORY_PAGES, (entry) => {
+        const order = missing.get(entry.id);
+        if (order) {
+          missing.delete(entry.id);
+          this.applyUpdate(order, fromOrder(entry));
+        }
+        return missing.size === 0;
+      });
+    }
+    // Older than the pages scanned: look each one up.
+    for (const order of missing.values()) {
+      const { orders } = await this.orders.history({ search: order.id, limit: 50 }, options);
+      const latest = orders.find((o) => o.id === order.id);
+      if (latest) {
+        this.applyUpdate(order, fromOrder(latest));
+      } else {
+        this.markLost(order);
+      }
+    }
+  }
+
+  /**
+   * Visit order history matching `params`, `PAGE_SIZE` entries per request,
+   * until `visit` returns true, the history ends or `maxPages` were read.
+   */
+  private async pageHistory(
+    params: OrdersHistoryParams,
+    options: CallOptions | undefined,
+    maxPages: number,
+    visit: (entry: OrderHistoryEntry) => boolean
+  ): Promise<void> {
+    let offset = 0;
+    for (let page = 0; page < maxPages; page++) {
+      const res = await this.orders.history({ ...params, limit: PAGE_SIZE, offset }, options);
+      for (const entry of res.orders) {
+        if (visit(entry)) return;
+      }
+      offset += res.orders.length;
+      if (res.orders.length < PAGE_SIZE || offset >= res.total) return;
+    }
+  }
+
+  private onEvent(event: WsOrderEvent): void {
+    const id = event.id ?? (typeof event.order_id === 'string' ? event.order_id : undefined);
+    if (!id) return;
+    this.applyUpdate(this.track(id), fromEvent(event));
+  }
+
+  private applyUpdate(order: TrackedOrder, update: OrderUpdate): void {
+    if (!order.apply(update)) return;
+    this.emit('update', order);
+    if (!order.isTerminal) return;
+    this.retire(order);
+    this.emit('terminal', order);
+  }
+
+  private markLost(order: TrackedOrder): void {
+    const error = new OrderLostError(order.id);
+    if (!order.markLost(error)) return;
+    this.retire(order);
+    this.emit('lost', order, error);
+  }
+
+  /** Move a settled order from `active` to `recent`. */
+  private retire(order: TrackedOrder): void {
+    this.active.delete(order.id);
+    this.recent.set(order.id, order);
+    if (this.recent.size > RECENT_LIMIT) {
+      const oldest = this.recent.keys().next().value;
+      if (oldest !== undefined) this.recent.delete(oldest);
+    }
+  }
+}
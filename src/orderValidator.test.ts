@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { validateOrder } from './orderValidator';
+import { OrderValidationError, ValidationError } from './types';
+import type { MarketInfo } from './types';
+
+const info: MarketInfo = {
+  trading_pair_id: 1,
+  base_symbol: 'BTC',
+  base_decimals: 8,
+  quote_symbol: 'USDT',
+  quote_decimals: 6,
+  min_trade_amount: '0.01',
+  max_trade_amount: '10',
+  tick_size: '0.5',
+  step_size: '0.001',
+  maker_fee_rate: '0.001',
+  taker_fee_rate: '0.002',
+  price_decimals: 2,
+};
+
+function rejection(fn: () => unknown): OrderValidationError {
+  try {
+    fn();
+  } catch (err) {
+    expect(err).toBeInstanceOf(OrderValidationError);
+    return err as OrderValidationError;
+  }
+  throw new Error('expected an OrderValidationError');
+}
+
+describe('validateOrder', () => {
+  it('passes valid values through unchanged', () => {
+    expect(validateOrder({ side: 'BUY', price: '100.5', quantity: '0.25' }, info)).toEqual({
+      price: '100.5',
+      quantity: '0.25',
+      adjusted: false,
+    });
+  });
+
+  it.each([
+    ['price_decimals', { price: '100.123', quantity: '1' }, 'price', '100'],
+    ['tick_size', { price: '100.25', quantity: '1' }, 'price', '100.5'],
+    ['step_size', { price: '100', quantity: '0.0126' }, 'quantity', '0.013'],
+    ['min_trade_amount', { price: '100', quantity: '0.005' }, 'quantity', '0.01'],
+    ['max_trade_amount', { price: '100', quantity: '12' }, 'quantity', '10'],
+  ])('names the %s rule and the nearest valid value', (rule, values, field, nearest) => {
+    const error = rejection(() => validateOrder({ side: 'BUY', ...values }, info));
+    expect(error).toMatchObject({ rule, field, nearestValid: nearest });
+    expect(error.value).toBe(values[field as 'price' | 'quantity']);
+  });
+
+  it('rounds prices in the order’s favour and quantities down with autoRound', () => {
+    const order = { price: '100.3', quantity: '0.0129' };
+    expect(validateOrder({ side: 'BUY', ...order }, info, { autoRound: true })).toEqual({
+      price: '100',
+      quantity: '0.012',
+      adjusted: true,
+    });
+    expect(validateOrder({ side: 'SELL', ...order }, info, { autoRound: true })).toMatchObject({
+      price: '100.5',
+    });
+  });
+
+  it('still throws for min and max with autoRound', () => {
+    const tooSmall = rejection(() =>
+      validateOrder({ side: 'BUY', price: '100', quantity: '0.0099' }, info, { autoRound: true })
+    );
+    expect(tooSmall.rule).toBe('min_trade_amount');
+    const tooLarge = rejection(() =>
+      validateOrder({ side: 'SELL', price: '100', quantity: '10.5' }, info, { autoRound: true })
+    );
+    expect(tooLarge.rule).toBe('max_trade_amount');
+  });
+
+  it('skips the price rules for market orders', () => {
+    expect(validateOrder({ side: 'BUY', price: '0', quantity: '1' }, info).price).toBe('0');
+  });
+
+  it('has no maximum when max_trade_amount is null', () => {
+    const unbounded = { ...info, max_trade_amount: null };
+    expect(validateOrder({ side: 'BUY', price: '100', quantity: '5000' }, unbounded)).toMatchObject(
+      { quantity: '5000' }
+    );
+  });
+
+  it('is a ValidationError without an HTTP status', () => {
+    const order = { side: 'BUY' as const, price: '1', quantity: '0.001' };
+    const error = rejection(() => validateOrder(order, info));
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.statusCode).toBeUndefined();
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Client-side pre-flight checks of an order's price and quantity against a
+ * market's trading rules, so tick/step/min/max violations surface before
+ * the request instead of as a 400 from the matching engine.
+ */
+import { Amount, decimalPlaces } from './amount';
+import type { RoundingMode } from './amount';
+import { OrderValidationError } from './types';
+import type { MarketInfo, OrderRule, OrderSide } from './types';
+
+export interface OrderValidationOptions {
+  /**
+   * Snap price to `tick_size`/`price_decimals` and quantity to `step_size`
+   * instead of throwing. Prices round in the order's favour (buys down,
+   * sells up) and quantities round down. Min/max violations always throw.
+   */
+  autoRound?: boolean;
+}
+
+/** Human-readable order values as they will be submitted. */
+export interface ValidatedOrder {
+  quantity: string;
+  price: string;
+  /** True if `autoRound` changed either value. */
+  adjusted: boolean;
+}
+
+/** Snap `value` to a multiple of `unit` (same scale) using `mode`. */
+function snap(value: Amount, unit: bigint, mode: RoundingMode): Amount {
+  if (unit <= 0n) return value;
+  return value.div(unit, mode).mul(unit);
+}
+
+function fail(
+  field: 'price' | 'quantity',
+  rule: OrderRule,
+  value: string,
+  limit: string,
+  nearest: Amount,
+  relation = 'violates'
+): never {
+  const nearestValid = nearest.toString();
+  throw new OrderValidationError(
+    `Order ${field} ${value} ${relation} ${rule} ${limit}; nearest valid value is ${nearestValid}`,
+    rule,
+    field,
+    value,
+    nearestValid
+  );
+}
+
+/**
+ * Check human-readable `price` and `quantity` against `info`, returning the
+ * values to submit. A price of `"0"` (market order) skips the price rules.
+ *
+ * `min_trade_amount` and `max_trade_amount` are compared to the quantity
+ * in base-asset units.
+ *
+ * @throws {OrderValidationError} naming the failed rule and nearest valid value.
+ *
+ * @example
+ * const info = await client.markets.marketInfo('BTC', 'USDT');
+ * const { price, quantity } = validateOrder(
+ *   { side: 'BUY', price: '50000.123', quantity: '0.123456789' },
+ *   info!,
+ *   { autoRound: true }
+ * );
+ */
+export function validateOrder(
+  order: { side: OrderSide; price: string; quantity: string },
+  info: MarketInfo,
+  options: OrderValidationOptions = {}
+): ValidatedOrder {
+  const autoRound = options.autoRound ?? false;
+  const price = validatePrice(order, info, autoRound);
+  const quantity = validateQuantity(order.quantity, info, autoRound);
+  return {
+    price,
+    quantity,
+    adjusted: price !== order.price || quantity !== order.quantity,
+  };
+}
+
+function validatePrice(
+  order: { side: OrderSide; price: string },
+  info: MarketInfo,
+  autoRound: boolean
+): string {
+  const scale = Math.max(
+    decimalPlaces(order.price),
+    decimalPlaces(info.tick_size),
+    info.price_decimals
+  );
+  const price = Amount.parse(order.price, scale);
+  if (price.isZero()) return order.price;
+
+  const favourable: RoundingMode = order.side.toUpperCase() === 'BUY' ? 'floor' : 'ceil';
+  const tick = Amount.parse(info.tick_size, scale).raw;
+  const decimalsUnit = 10n ** BigInt(scale - info.price_decimals);
+
+  let valid = price;
+  if (price.raw % decimalsUnit !== 0n) {
+    if (!autoRound) {
+      fail(
+        'price',
+        'price_decimals',
+        order.price,
+        String(info.price_decimals),
+        snap(snap(price, decimalsUnit, 'halfUp'), tick, 'halfUp')
+      );
+    }
+    valid = snap(valid, decimalsUnit, favourable);
+  }
+  if (tick > 0n && valid.raw % tick !== 0n) {
+    if (!autoRound) {
+      fail('price', 'tick_size', order.price, info.tick_size, snap(price, tick, 'halfUp'));
+    }
+    valid = snap(snap(valid, tick, favourable), decimalsUnit, favourable);
+  }
+  return valid === price ? order.price : valid.toString();
+}
+
+function validateQuantity(quantity: string, info: MarketInfo, autoRound: boolean): string {
+  const scale = Math.max(
+    decimalPlaces(quantity),
+    decimalPlaces(info.step_size),
+    decimalPlaces(info.min_trade_amount),
+    decimalPlaces(info.max_trade_amount ?? '0')
+  );
+  const qty = Amount.parse(quantity, scale);
+  const step = Amount.parse(info.step_size, scale).raw;
+  const min = snap(Amount.parse(info.min_trade_amount, scale), step, 'ceil');
+  const max =
+    info.max_trade_amount === null
+      ? null
+      : snap(Amount.parse(info.max_trade_amount, scale), step, 'floor');
+  const clamp = (value: Amount) => {
+    const floored = Amount.max(value, min);
+    return max ? Amount.min(floored, max) : floored;
+  };
+
+  let valid = qty;
+  if (step > 0n && qty.raw % step !== 0n) {
+    if (!autoRound) {
+      fail('quantity', 'step_size', quantity, info.step_size, clamp(snap(qty, step, 'halfUp')));
+    }
+    valid = snap(qty, step, 'down');
+  }
+
+  if (valid.lt(min)) {
+    fail('quantity', 'min_trade_amount', quantity, info.min_trade_amount, min, 'is below');
+  }
+  if (max && valid.gt(max)) {
+    fail('quantity', 'max_trade_amount', quantity, info.max_trade_amount ?? '', max, 'is above');
+  }
+  return valid === qty ? quantity : valid.toString();
+}
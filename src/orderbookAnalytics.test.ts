@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import {
+  cumulativeDepth,
+  depth,
+  estimateFill,
+  imbalance,
+  maxQuantityWithin,
+  midPrice,
+  vwap,
+} from './orderbookAnalytics';
+import type { Orderbook } from './types';
+
+function orderbook(bids: Array<[string, string]>, asks: Array<[string, string]>): Orderbook {
+  return {
+    trading_pair_id: 1,
+    base_symbol: 'BTC',
+    quote_symbol: 'USDT',
+    bids: bids.map(([price, quantity]) => ({ price, quantity })),
+    asks: asks.map(([price, quantity]) => ({ price, quantity })),
+  };
+}
+
+const book = orderbook(
+  [
+    ['99', '1'],
+    ['98', '2'],
+    ['90', '5'],
+  ],
+  [
+    ['101', '1'],
+    ['102', '2'],
+    ['110', '5'],
+  ]
+);
+const empty = orderbook([], []);
+
+describe('depth', () => {
+  it('sums whole sides, the best N levels or a band around mid', () => {
+    expect(midPrice(book)).toBe('100');
+    expect(depth(book)).toEqual({
+      bids: { base: '8', quote: '745', levels: 3 },
+      asks: { base: '8', quote: '855', levels: 3 },
+    });
+    expect(depth(book, { levels: 1 }).bids).toEqual({ base: '1', quote: '99', levels: 1 });
+    expect(depth(book, { percent: 2 })).toEqual({
+      bids: { base: '3', quote: '295', levels: 2 },
+      asks: { base: '3', quote: '305', levels: 2 },
+    });
+  });
+
+  it('keeps running totals per level', () => {
+    const totals = cumulativeDepth(book, 'asks').map((l) => [l.cumulativeBase, l.cumulativeQuote]);
+    expect(totals).toEqual([
+      ['1', '101'],
+      ['3', '305'],
+      ['8', '855'],
+    ]);
+  });
+
+  it('reads percentages written in exponent notation', () => {
+    const tight = orderbook([['99.9999999', '1']], [['100.0000001', '2']]);
+    expect(depth(tight, { percent: 1e-7 })).toEqual({
+      bids: { base: '1', quote: '99.9999999', levels: 1 },
+      asks: { base: '2', quote: '200.0000002', levels: 1 },
+    });
+  });
+
+  it('has no mid or imbalance for an empty book', () => {
+    expect(midPrice(empty)).toBeUndefined();
+    expect(imbalance(empty)).toBeUndefined();
+  });
+});
+
+describe('estimateFill', () => {
+  it('walks the asks for a buy and reports VWAP and slippage from mid', () => {
+    expect(estimateFill(book, 'BUY', '2')).toEqual({
+      base: '2',
+      quote: '203',
+      averagePrice: '101.5',
+      worstPrice: '102',
+      midPrice: '100',
+      slippageBps: '150',
+      levels: 2,
+      complete: true,
+    });
+    expect(vwap(book, 'buy', '2')).toBe('101.5');
+  });
+
+  it('fills a quote amount on the bids for a sell', () => {
+    expect(estimateFill(book, 'SELL', '148', { amountIn: 'quote' })).toMatchObject({
+      base: '1.5',
+      quote: '148',
+      averagePrice: '98.66666667',
+      worstPrice: '98',
+      levels: 2,
+      complete: true,
+    });
+  });
+
+  it('reports a partial fill when the book runs out', () => {
+    expect(estimateFill(book, 'BUY', '10')).toMatchObject({ base: '8', complete: false });
+    expect(vwap(book, 'BUY', '10')).toBeUndefined();
+    expect(estimateFill(empty, 'SELL', '1')).toMatchObject({
+      base: '0',
+      averagePrice: undefined,
+      slippageBps: undefined,
+      complete: false,
+    });
+  });
+});
+
+describe('maxQuantityWithin', () => {
+  it('stops at the first level beyond the band', () => {
+    expect(maxQuantityWithin(book, 'BUY', 200)).toEqual({ base: '3', quote: '305' });
+    expect(maxQuantityWithin(book, 'SELL', '1e2')).toEqual({ base: '1', quote: '99' });
+    expect(maxQuantityWithin(empty, 'BUY', 200)).toEqual({ base: '0', quote: '0' });
+  });
+});
+
+describe('imbalance', () => {
+  it('is (bids - asks) / (bids + asks) in base units', () => {
+    expect(imbalance(book)).toBe('0');
+    expect(imbalance(orderbook([['99', '3']], [['101', '1']]))).toBe('0.5');
+    expect(imbalance(orderbook([], [['101', '1']]))).toBe('-1');
+  });
+});
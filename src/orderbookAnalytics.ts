@@ -0,0 +1,299 @@
+/**
+ * Order book analytics: cumulative depth, fill/VWAP estimation, slippage,
+ * imbalance and "how much can I trade within X bps". Operates on the
+ * `Orderbook` shape returned by `markets.orderbook()` and
+ * `LocalOrderBook.toOrderbook()`.
+ *
+ * Sums and products are exact. Ratios (VWAP, slippage, imbalance) are
+ * rounded half-up to 8 digits beyond the book's own price + quantity
+ * precision. Results are decimal strings with trailing zeros removed.
+ */
+import { Amount, decimalPlaces, toDecimalString } from './amount';
+import type { Orderbook, OrderbookEntry, OrderSide } from './types';
+
+/** Extra fractional digits kept for ratios beyond the book's precision. */
+const EXTRA_DIGITS = 8;
+
+export interface DepthOptions {
+  /** Only the best `levels` levels per side. */
+  levels?: number;
+  /** Only levels within this percentage of the mid price (e.g. `1` for 1%). */
+  percent?: number | string;
+}
+
+export interface DepthSide {
+  /** Total base quantity. */
+  base: string;
+  /** Total quote value (`price × quantity` summed). */
+  quote: string;
+  /** Number of levels included. */
+  levels: number;
+}
+
+export interface OrderbookDepth {
+  bids: DepthSide;
+  asks: DepthSide;
+}
+
+export interface CumulativeLevel extends OrderbookEntry {
+  /** Base quantity from the best level through this one. */
+  cumulativeBase: string;
+  /** Quote value from the best level through this one. */
+  cumulativeQuote: string;
+}
+
+export interface FillEstimate {
+  /** Base quantity that would fill. */
+  base: string;
+  /** Quote amount that would be paid (buy) or received (sell). */
+  quote: string;
+  /** Volume-weighted average fill price; `undefined` if nothing fills. */
+  averagePrice: string | undefined;
+  /** Price of the last level touched. */
+  worstPrice: string | undefined;
+  /** Mid price the slippage is measured against. */
+  midPrice: string | undefined;
+  /** Adverse move of `averagePrice` versus mid, in basis points. */
+  slippageBps: string | undefined;
+  /** Levels consumed, including a partially consumed last level. */
+  levels: number;
+  /** False if the book ran out before the requested amount filled. */
+  complete: boolean;
+}
+
+export interface FillOptions {
+  /** Whether `amount` is in base (default) or quote units. */
+  amountIn?: 'base' | 'quote';
+}
+
+/**
+ * Fixed working scale for one book: enough digits that price × quantity is
+ * exact, plus headroom for ratios.
+ */
+class Scale {
+  readonly decimals: number;
+
+  constructor(book: Orderbook, ...extra: string[]) {
+    const levels = [...book.bids, ...book.asks];
+    const priceDp = Math.max(0, ...levels.map((l) => decimalPlaces(l.price)));
+    const qtyDp = Math.max(0, ...levels.map((l) => decimalPlaces(l.quantity)));
+    const extraDp = Math.max(0, ...extra.map((v) => decimalPlaces(v)));
+    this.decimals = Math.max(priceDp + qtyDp, extraDp) + EXTRA_DIGITS;
+  }
+
+  of(value: string): Amount {
+    return Amount.parse(value, this.decimals);
+  }
+
+  zero(): Amount {
+    return Amount.zero(this.decimals);
+  }
+
+  /** `a / b`, rounded half-up at the working scale. */
+  ratio(a: Amount, b: Amount): Amount {
+    return a.div(b.toString(), 'halfUp');
+  }
+}
+
+function isBuy(side: OrderSide): boolean {
+  return side.toUpperCase() === 'BUY';
+}
+
+function mid(book: Orderbook, scale: Scale): Amount | undefined {
+  const bid = book.bids[0];
+  const ask = book.asks[0];
+  if (!bid || !ask) return undefined;
+  return scale.of(bid.price).add(scale.of(ask.price)).div(2n, 'halfUp');
+}
+
+/** Mid price of the best bid and ask, or `undefined` if either side is empty. */
+export function midPrice(book: Orderbook): string | undefined {
+  return mid(book, new Scale(book))?.toString();
+}
+
+/**
+ * Levels of one side (`'bids'` or `'asks'`) with running base and quote
+ * totals, best level first.
+ */
+export function cumulativeDepth(book: Orderbook, side: 'bids' | 'asks'): CumulativeLevel[] {
+  const scale = new Scale(book);
+  let base = scale.zero();
+  let quote = scale.zero();
+  return book[side].map((level) => {
+    const qty = scale.of(level.quantity);
+    base = base.add(qty);
+    quote = quote.add(qty.mul(level.price));
+    return { ...level, cumulativeBase: base.toString(), cumulativeQuote: quote.toString() };
+  });
+}
+
+/**
+ * Total base and quote liquidity on each side, optionally limited to the
+ * best N levels and/or to levels within a percentage of mid.
+ *
+ * @example
+ * const { bids, asks } = depth(book, { percent: 1 });
+ * console.log(`±1%: ${bids.base} bid / ${asks.base} ask`);
+ */
+export function depth(book: Orderbook, options: DepthOptions = {}): OrderbookDepth {
+  const percent = options.percent === undefined ? undefined : toDecimalString(options.percent);
+  const scale = new Scale(book, percent ?? '0');
+  const m = mid(book, scale);
+  let lowest: Amount | undefined;
+  let highest: Amount | undefined;
+  if (percent !== undefined && m) {
+    const band = m.mul(percent).div(100n);
+    lowest = m.sub(band);
+    highest = m.add(band);
+  }
+
+  const sum = (levels: OrderbookEntry[], inBand: (price: Amount) => boolean): DepthSide => {
+    let base = scale.zero();
+    let quote = scale.zero();
+    let count = 0;
+    for (const level of levels.slice(0, options.levels)) {
+      if (!inBand(scale.of(level.price))) break;
+      const qty = scale.of(level.quantity);
+      base = base.add(qty);
+      quote = quote.add(qty.mul(level.price));
+      count++;
+    }
+    return { base: base.toString(), quote: quote.toString(), levels: count };
+  };
+
+  return {
+    bids: sum(book.bids, (price) => !lowest || price.gte(lowest)),
+    asks: sum(book.asks, (price) => !highest || price.lte(highest)),
+  };
+}
+
+/**
+ * Walk the book to estimate filling a market order of `amount` (base units
+ * by default, or quote units with `amountIn: 'quote'`). A buy consumes asks,
+ * a sell consumes bids.
+ *
+ * @example
+ * const est = estimateFill(book, 'BUY', '2.5');
+ * if (!est.complete || Number(est.slippageBps) > 50) throw new Error('too thin');
+ */
+export function estimateFill(
+  book: Orderbook,
+  side: OrderSide,
+  amount: string,
+  options: FillOptions = {}
+): FillEstimate {
+  const scale = new Scale(book, amount);
+  const byQuote = options.amountIn === 'quote';
+  const levels = isBuy(side) ? book.asks : book.bids;
+  let remaining = scale.of(amount);
+  let base = scale.zero();
+  let quote = scale.zero();
+  let worstPrice: string | undefined;
+  let used = 0;
+
+  for (const level of levels) {
+    if (!remaining.gt(0n)) break;
+    const price = scale.of(level.price);
+    const levelBase = scale.of(level.quantity);
+    const levelQuote = levelBase.mul(level.price);
+    const full = byQuote ? levelQuote.lte(remaining) : levelBase.lte(remaining);
+    let takeBase: Amount;
+    let takeQuote: Amount;
+    if (full) {
+      takeBase = levelBase;
+      takeQuote = levelQuote;
+    } else if (byQuote) {
+      takeQuote = remaining;
+      takeBase = scale.ratio(remaining, price);
+    } else {
+      takeBase = remaining;
+      takeQuote = remaining.mul(level.price);
+    }
+    base = base.add(takeBase);
+    quote = quote.add(takeQuote);
+    remaining = remaining.sub(byQuote ? takeQuote : takeBase);
+    worstPrice = level.price;
+    used++;
+  }
+
+  const m = mid(book, scale);
+  const average = base.isZero() ? undefined : scale.ratio(quote, base);
+  let slippageBps: string | undefined;
+  if (average && m && !m.isZero()) {
+    const adverse = isBuy(side) ? average.sub(m) : m.sub(average);
+    slippageBps = scale.ratio(adverse.mul(10000n), m).toString();
+  }
+
+  return {
+    base: base.toString(),
+    quote: quote.toString(),
+    averagePrice: average?.toString(),
+    worstPrice,
+    midPrice: m?.toString(),
+    slippageBps,
+    levels: used,
+    complete: !remaining.gt(0n),
+  };
+}
+
+/**
+ * Volume-weighted average price for filling `amount` on `side`, or
+ * `undefined` if the book can't fill all of it.
+ */
+export function vwap(
+  book: Orderbook,
+  side: OrderSide,
+  amount: string,
+  options: FillOptions = {}
+): string | undefined {
+  const estimate = estimateFill(book, side, amount, options);
+  return estimate.complete ? estimate.averagePrice : undefined;
+}
+
+/**
+ * Largest base quantity that can be bought (or sold) without any fill
+ * landing more than `bps` basis points from mid. Returns the base quantity
+ * and its quote value.
+ *
+ * @example
+ * const { base } = maxQuantityWithin(book, 'BUY', 25);  // within 0.25% of mid
+ */
+export function maxQuantityWithin(
+  book: Orderbook,
+  side: OrderSide,
+  bps: number | string
+): { base: string; quote: string } {
+  const bpsValue = toDecimalString(bps);
+  const scale = new Scale(book, bpsValue);
+  const m = mid(book, scale);
+  if (!m) return { base: '0', quote: '0' };
+  const band = m.mul(bpsValue).div(10000n);
+  const buy = isBuy(side);
+  const limit = buy ? m.add(band) : m.sub(band);
+
+  let base = scale.zero();
+  let quote = scale.zero();
+  for (const level of buy ? book.asks : book.bids) {
+    const price = scale.of(level.price);
+    if (buy ? price.gt(limit) : price.lt(limit)) break;
+    const qty = scale.of(level.quantity);
+    base = base.add(qty);
+    quote = quote.add(qty.mul(level.price));
+  }
+  return { base: base.toString(), quote: quote.toString() };
+}
+
+/**
+ * Bid/ask liquidity imbalance in base units, `(bids - asks) / (bids + asks)`:
+ * `1` is all bids, `-1` all asks. Accepts the same filters as {@link depth}.
+ * `undefined` if both sides are empty.
+ */
+export function imbalance(book: Orderbook, options: DepthOptions = {}): string | undefined {
+  const { bids, asks } = depth(book, options);
+  const scale = new Scale(book, bids.base, asks.base);
+  const b = scale.of(bids.base);
+  const a = scale.of(asks.base);
+  const total = b.add(a);
+  if (total.isZero()) return undefined;
+  return scale.ratio(b.sub(a), total).toString();
+}
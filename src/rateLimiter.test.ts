@@ -0,0 +1,136 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler, TokenBucket } from './rateLimiter';
+import { KlingExError } from './types';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+/** Record the order in which queued requests are released. */
+function track(scheduler: RequestScheduler) {
+  const released: string[] = [];
+  const acquire = (name: string, endpoint: string, priority?: 'high' | 'normal' | 'low') =>
+    scheduler.acquire(endpoint, priority).then(() => {
+      released.push(name);
+    });
+  return { released, acquire };
+}
+
+describe('TokenBucket', () => {
+  it('refills continuously up to capacity', () => {
+    const bucket = new TokenBucket({ capacity: 2, refillPerSecond: 4 });
+    bucket.take();
+    bucket.take();
+    expect(bucket.waitTime()).toBe(250);
+    vi.advanceTimersByTime(250);
+    expect(bucket.waitTime()).toBe(0);
+  });
+
+  it('pauses and halves its rate after a 429, then recovers', () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 10 });
+    bucket.throttle(1000, true);
+    expect(bucket.waitTime()).toBe(1000);
+    expect(bucket.currentRate).toBe(5);
+    bucket.recover();
+    expect(bucket.currentRate).toBe(5.5);
+  });
+});
+
+describe('RequestScheduler', () => {
+  it('releases queued requests by priority lane, FIFO within a lane', async () => {
+    const scheduler = new RequestScheduler({
+      global: { capacity: 1, refillPerSecond: 10 },
+      routes: [],
+    });
+    const { released, acquire } = track(scheduler);
+    const all = [
+      acquire('first', '/a'),
+      acquire('low', '/a', 'low'),
+      acquire('normal-1', '/a'),
+      acquire('high', '/a', 'high'),
+      acquire('normal-2', '/a', 'normal'),
+    ];
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(all);
+    expect(released).toEqual(['first', 'high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('gives cancels the high lane by route', async () => {
+    const scheduler = new RequestScheduler({ global: { capacity: 1, refillPerSecond: 10 } });
+    const { released, acquire } = track(scheduler);
+    const all = [
+      acquire('markets', '/api/markets'),
+      acquire('submit', '/api/submit-order'),
+      acquire('cancel', '/api/cancel-order'),
+    ];
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(all);
+    expect(released).toEqual(['markets', 'cancel', 'submit']);
+  });
+
+  it('lets other routes pass a request waiting on its own route bucket', async () => {
+    const scheduler = new RequestScheduler({
+      global: false,
+      buckets: { slow: { capacity: 1, refillPerSecond: 1 } },
+      routes: [{ match: '/slow', bucket: 'slow', priority: 'high' }],
+    });
+    const { released, acquire } = track(scheduler);
+    const all = [acquire('slow-1', '/slow'), acquire('slow-2', '/slow'), acquire('fast', '/fast')];
+    await vi.advanceTimersByTimeAsync(0);
+    expect(released).toEqual(['slow-1', 'fast']);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(all);
+    expect(released).toEqual(['slow-1', 'fast', 'slow-2']);
+  });
+
+  it('keeps order queries from using up the trading bucket', async () => {
+    const scheduler = new RequestScheduler({ global: false });
+    const { released, acquire } = track(scheduler);
+    const all = [
+      ...Array.from({ length: 6 }, (_, i) => acquire(`query-${i}`, '/api/user-orders')),
+      acquire('submit', '/api/submit-order'),
+    ];
+    await vi.advanceTimersByTimeAsync(0);
+    // The orderQueries bucket holds five; the sixth waits for a refill.
+    expect(released).toEqual([0, 1, 2, 3, 4].map((i) => `query-${i}`).concat('submit'));
+    await vi.advanceTimersByTimeAsync(500);
+    await Promise.all(all);
+    expect(released).toContain('query-5');
+  });
+
+  it('removes an aborted request from the queue', async () => {
+    const scheduler = new RequestScheduler({
+      global: { capacity: 1, refillPerSecond: 1 },
+      routes: [],
+    });
+    const { released, acquire } = track(scheduler);
+    const first = acquire('first', '/a');
+    const controller = new AbortController();
+    const aborted = scheduler.acquire('/a', 'high', controller.signal);
+    const last = acquire('last', '/a');
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(aborted).rejects.toBeInstanceOf(KlingExError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all([first, last]);
+    expect(released).toEqual(['first', 'last']);
+  });
+
+  it('pauses a route after a 429', async () => {
+    const scheduler = new RequestScheduler({ global: false });
+    scheduler.onRateLimited('/api/submit-order', 2);
+    const { released, acquire } = track(scheduler);
+    const submit = acquire('submit', '/api/submit-order');
+    const markets = acquire('markets', '/api/markets');
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(released).toEqual(['markets']);
+    await vi.advanceTimersByTimeAsync(1);
+    await submit;
+    await markets;
+    expect(released).toEqual(['markets', 'submit']);
+  });
+});
@@ -0,0 +1,232 @@
+import { KlingExError } from './types';
+import type {
+  RateLimitOptions,
+  RateLimitRoute,
+  RequestPriority,
+  TokenBucketOptions,
+} from './types';
+
+const DEFAULT_GLOBAL_BUCKET: TokenBucketOptions = { capacity: 20, refillPerSecond: 10 };
+
+const DEFAULT_BUCKETS: Record<string, TokenBucketOptions> = {
+  trading: { capacity: 10, refillPerSecond: 5 },
+  marketData: { capacity: 20, refillPerSecond: 10 },
+  orderQueries: { capacity: 5, refillPerSecond: 2 },
+};
+
+const DEFAULT_ROUTES: RateLimitRoute[] = [
+  { match: '/api/cancel-order', bucket: 'trading', priority: 'high' },
+  { match: '/api/cancel-all-orders', bucket: 'trading', priority: 'high' },
+  { match: '/api/submit-order', bucket: 'trading' },
+  // Own-order polling gets its own budget so it can't starve submits and cancels.
+  { match: '/api/user-orders', bucket: 'orderQueries' },
+  { match: '/api/orders-history', bucket: 'orderQueries' },
+  { match: '/api/markets', bucket: 'marketData' },
+  { match: '/api/market-info', bucket: 'marketData' },
+  { match: '/api/tickers', bucket: 'marketData' },
+  { match: '/api/orderbook', bucket: 'marketData' },
+  { match: '/api/ohlcv', bucket: 'marketData' },
+  { match: '/api/trades', bucket: 'marketData' },
+];
+
+const PRIORITY_RANK: Record<RequestPriority, number> = { high: 0, normal: 1, low: 2 };
+
+/** Lowest fraction of the configured refill rate adaptive throttling drops to. */
+const MIN_RATE_FACTOR = 0.1;
+/** Fraction of the configured rate regained per successful request. */
+const RECOVERY_STEP = 0.05;
+
+/**
+ * Classic token bucket. Tokens refill continuously at `refillPerSecond` up to
+ * `capacity`; each request takes one.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private rate: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+
+  constructor(private readonly config: TokenBucketOptions) {
+    this.tokens = config.capacity;
+    this.rate = config.refillPerSecond;
+  }
+
+  /** Milliseconds until a token is available (0 if one is available now). */
+  waitTime(): number {
+    this.refill();
+    const now = Date.now();
+    if (this.pausedUntil > now) {
+      return this.pausedUntil - now;
+    }
+    if (this.tokens >= 1) return 0;
+    return Math.ceil(((1 - this.tokens) / this.rate) * 1000);
+  }
+
+  take(): void {
+    this.refill();
+    this.tokens -= 1;
+  }
+
+  /**
+   * Cut the refill rate after a 429 and stop issuing tokens for `pauseMs`.
+   */
+  throttle(pauseMs: number, adaptive: boolean): void {
+    this.refill();
+    this.tokens = 0;
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pauseMs);
+    if (adaptive) {
+      this.rate = Math.max(this.rate / 2, this.config.refillPerSecond * MIN_RATE_FACTOR);
+    }
+  }
+
+  /** Step the refill rate back toward its configured value. */
+  recover(): void {
+    if (this.rate >= this.config.refillPerSecond) return;
+    this.refill();
+    this.rate = Math.min(
+      this.config.refillPerSecond,
+      this.rate + this.config.refillPerSecond * RECOVERY_STEP
+    );
+  }
+
+  /** Current refill rate in tokens per second. */
+  get currentRate(): number {
+    return this.rate;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.config.capacity, this.tokens + elapsed * this.rate);
+  }
+}
+
+interface QueuedRequest {
+  buckets: TokenBucket[];
+  rank: number;
+  seq: number;
+  resolve: () => void;
+}
+
+/**
+ * Queues outgoing requests through a global token bucket plus an optional
+ * per-route bucket, releasing them in priority order as tokens become
+ * available.
+ */
+export class RequestScheduler {
+  private global: TokenBucket | null;
+  private buckets = new Map<string, TokenBucket>();
+  private routes: RateLimitRoute[];
+  private adaptive: boolean;
+  private queue: QueuedRequest[] = [];
+  private seq = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitOptions = {}) {
+    const global = options.global ?? DEFAULT_GLOBAL_BUCKET;
+    this.global = global ? new TokenBucket(global) : null;
+    for (const [name, config] of Object.entries({ ...DEFAULT_BUCKETS, ...options.buckets })) {
+      this.buckets.set(name, new TokenBucket(config));
+    }
+    this.routes = options.routes ?? DEFAULT_ROUTES;
+    this.adaptive = options.adaptive ?? true;
+  }
+
+  /**
+   * Wait for permission to send a request to `endpoint`. Requests without an
+   * explicit priority take their route's default. Aborting `signal` removes
+   * the request from the queue.
+   */
+  acquire(endpoint: string, priority?: RequestPriority, signal?: AbortSignal): Promise<void> {
+    const route = this.matchRoute(endpoint);
+    const rank = PRIORITY_RANK[priority ?? route?.priority ?? 'normal'];
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new KlingExError('Request aborted', 'ABORTED'));
+        return;
+      }
+      const onAbort = () => {
+        this.queue = this.queue.filter((queued) => queued !== entry);
+        reject(new KlingExError('Request aborted', 'ABORTED'));
+      };
+      const entry: QueuedRequest = {
+        buckets: this.bucketsFor(route),
+        rank,
+        seq: this.seq++,
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(entry);
+      this.queue.sort((a, b) => a.rank - b.rank || a.seq - b.seq);
+      this.pump();
+    });
+  }
+
+  /**
+   * Record a 429 on `endpoint`: pause its buckets for `retryAfter` seconds
+   * (or one second if the server gave no hint) and, in adaptive mode, cut
+   * their refill rate.
+   */
+  onRateLimited(endpoint: string, retryAfter?: number): void {
+    const pauseMs = (retryAfter ?? 1) * 1000;
+    for (const bucket of this.bucketsFor(this.matchRoute(endpoint))) {
+      bucket.throttle(pauseMs, this.adaptive);
+    }
+  }
+
+  /** Record a successful response on `endpoint`. */
+  onSuccess(endpoint: string): void {
+    if (!this.adaptive) return;
+    for (const bucket of this.bucketsFor(this.matchRoute(endpoint))) {
+      bucket.recover();
+    }
+  }
+
+  private matchRoute(endpoint: string): RateLimitRoute | undefined {
+    return this.routes.find((route) =>
+      typeof route.match === 'string'
+        ? endpoint.startsWith(route.match)
+        : route.match.test(endpoint)
+    );
+  }
+
+  private bucketsFor(route: RateLimitRoute | undefined): TokenBucket[] {
+    const out: TokenBucket[] = [];
+    if (this.global) out.push(this.global);
+    const bucket = route ? this.buckets.get(route.bucket) : undefined;
+    if (bucket) out.push(bucket);
+    return out;
+  }
+
+  private pump(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    let nextWait = Infinity;
+    for (let i = 0; i < this.queue.length; ) {
+      const entry = this.queue[i];
+      const wait = Math.max(0, ...entry.buckets.map((b) => b.waitTime()));
+      if (wait === 0) {
+        entry.buckets.forEach((b) => b.take());
+        this.queue.splice(i, 1);
+        entry.resolve();
+        continue;
+      }
+      nextWait = Math.min(nextWait, wait);
+      // A higher-priority request blocked on the global budget must not be
+      // overtaken by lower lanes; only route-local waits let others pass.
+      if (this.global && this.global.waitTime() > 0) break;
+      i++;
+    }
+
+    if (this.queue.length > 0 && nextWait !== Infinity) {
+      this.timer = setTimeout(() => this.pump(), nextWait);
+    }
+  }
+}
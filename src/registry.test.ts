@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { KlingEx } from './client';
+import { normalizePairSymbol } from './registry';
+import { TimeoutError, UnknownAssetError, UnknownMarketError } from './types';
+import { fakeApi } from './testing/fakeApi';
+
+const btc = { id: 1, base_asset_symbol: 'BTC', quote_asset_symbol: 'USDT' };
+const trc = { id: 2, base_asset_symbol: 'BTC', quote_asset_symbol: 'USDT_TRC20' };
+const assets = { assets: [{ id: 10, symbol: 'ETH' }] };
+
+/**
+ * A client whose `/api/markets` answers with `markets()` at the time of
+ * the request, once `gate` (if any) resolves.
+ */
+function exchange(markets: () => object[] = () => [btc, trc], gate?: () => Promise<void>) {
+  const api = fakeApi({
+    'GET /api/markets': async () => {
+      const answer = markets();
+      await gate?.();
+      return answer;
+    },
+    'GET /api/assets': assets,
+  });
+  const client = new KlingEx({ apiKey: 'key', fetch: api.fetch, registryTtl: 1000 });
+  const downloads = () => api.requests.filter((r) => r.path === '/api/markets').length;
+  return { registry: client.registry, downloads };
+}
+
+/** A gate the spec opens by hand, to keep a download in flight. */
+function held() {
+  let open!: () => void;
+  const opened = new Promise<void>((resolve) => {
+    open = resolve;
+  });
+  return { gate: () => opened, open };
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('normalizePairSymbol', () => {
+  it.each([
+    ['btc/usdt', 'BTC-USDT'],
+    [' BTC_USDT ', 'BTC-USDT'],
+    ['BTC-USDT_TRC20', 'BTC-USDT_TRC20'],
+    ['BTC', undefined],
+    ['A_B_C', undefined],
+  ])('reads %j as %j', (symbol, expected) => {
+    expect(normalizePairSymbol(symbol)).toBe(expected);
+  });
+});
+
+describe('MarketRegistry', () => {
+  it('resolves markets by ID or any separator, including underscored quote symbols', async () => {
+    const { registry } = exchange();
+    await expect(registry.market(1)).resolves.toMatchObject({ id: 1 });
+    await expect(registry.market('btc/usdt')).resolves.toMatchObject({ id: 1 });
+    await expect(registry.market('BTC_USDT')).resolves.toMatchObject({ id: 1 });
+    await expect(registry.market('BTC_USDT_TRC20')).resolves.toMatchObject({ id: 2 });
+    await expect(registry.symbol(2)).resolves.toBe('BTC-USDT_TRC20');
+  });
+
+  it('throws UnknownMarketError and UnknownAssetError for missing entries', async () => {
+    const { registry } = exchange();
+    await expect(registry.market('DOGE-USDT')).rejects.toBeInstanceOf(UnknownMarketError);
+    await expect(registry.findMarket(99)).resolves.toBeUndefined();
+    await expect(registry.asset('eth')).resolves.toMatchObject({ id: 10 });
+    await expect(registry.asset('XRP')).rejects.toBeInstanceOf(UnknownAssetError);
+  });
+
+  it('shares one download between concurrent lookups and caches it for the TTL', async () => {
+    vi.useFakeTimers();
+    const { registry, downloads } = exchange();
+    await Promise.all([registry.market(1), registry.asset('ETH'), registry.list()]);
+    expect(downloads()).toBe(1);
+
+    vi.advanceTimersByTime(999);
+    await registry.market(1);
+    expect(downloads()).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    await registry.market(1);
+    expect(downloads()).toBe(2);
+  });
+
+  it('bounds only the caller’s own wait with its signal and timeout', async () => {
+    const { gate, open } = held();
+    const { registry, downloads } = exchange(undefined, gate);
+    const controller = new AbortController();
+
+    const patient = registry.market(1);
+    const aborted = registry.market(1, { signal: controller.signal });
+    const hurried = registry.market(1, { timeout: 10 });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+    await expect(hurried).rejects.toBeInstanceOf(TimeoutError);
+
+    open();
+    await expect(patient).resolves.toMatchObject({ id: 1 });
+    expect(downloads()).toBe(1);
+  });
+
+  it('downloads again on refresh() instead of joining a load already in flight', async () => {
+    const { gate, open } = held();
+    let listed = [btc];
+    const { registry, downloads } = exchange(() => listed, gate);
+
+    const stale = registry.list();
+    await vi.waitFor(() => expect(downloads()).toBe(1));
+    listed = [btc, trc];
+    const refreshed = registry.refresh();
+    open();
+
+    await expect(stale).resolves.toHaveLength(1);
+    await refreshed;
+    expect(downloads()).toBe(2);
+    await expect(registry.list()).resolves.toHaveLength(2);
+    expect(downloads()).toBe(2);
+  });
+});
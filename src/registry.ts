@@ -0,0 +1,250 @@
+import type { MarketsEndpoint } from './endpoints/markets';
+import { KlingExError, TimeoutError, UnknownAssetError, UnknownMarketError } from './types';
+import type { Asset, CallOptions, Market, MarketInfo } from './types';
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+export interface MarketRegistryOptions {
+  /**
+   * How long loaded metadata is served before the next lookup refreshes it,
+   * in milliseconds (default: 5 minutes).
+   */
+  ttl?: number;
+}
+
+/** A market given as `"BTC-USDT"`, `"BTC/USDT"`, `"BTC_USDT"` or its numeric ID. */
+export type MarketRef = string | number;
+
+/** An asset given as its symbol (case-insensitive) or numeric ID. */
+export type AssetRef = string | number;
+
+interface Snapshot {
+  loadedAt: number;
+  markets: Market[];
+  marketsById: Map<number, Market>;
+  marketsBySymbol: Map<string, Market>;
+  assetsById: Map<number, Asset>;
+  assetsBySymbol: Map<string, Asset>;
+}
+
+/**
+ * Normalize a pair symbol to `BASE-QUOTE`, accepting `-`, `/` or `_` as the
+ * separator. `_` is only treated as one when there is no `-` or `/`, so
+ * `"BTC-USDT_TRC20"` keeps its quote symbol. Returns `undefined` if
+ * `symbol` isn't a pair or the split is ambiguous.
+ */
+export function normalizePairSymbol(symbol: string): string | undefined {
+  const upper = symbol.trim().toUpperCase();
+  let parts = upper.split(/[-/]/);
+  if (parts.length === 1) parts = upper.split('_');
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return undefined;
+  return `${parts[0]}-${parts[1]}`;
+}
+
+/** Every `BASE-QUOTE` reading of `symbol`, one per separator position. */
+function pairCandidates(symbol: string): string[] {
+  const upper = symbol.trim().toUpperCase();
+  const candidates: string[] = [];
+  for (let i = 1; i < upper.length - 1; i++) {
+    if ('-/_'.includes(upper[i])) {
+      candidates.push(`${upper.slice(0, i)}-${upper.slice(i + 1)}`);
+    }
+  }
+  return candidates;
+}
+
+/**
+ * Wait for a shared `promise` under one caller's own `signal` and `timeout`,
+ * leaving the promise itself running for everyone else.
+ */
+function waitFor<T>(promise: Promise<T>, options: CallOptions = {}): Promise<T> {
+  const { signal, timeout } = options;
+  if (!signal && timeout === undefined) return promise;
+  return new Promise((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new KlingExError('Request aborted', 'ABORTED'));
+    };
+    const timer =
+      timeout === undefined
+        ? undefined
+        : setTimeout(() => {
+            cleanup();
+            reject(new TimeoutError(`Market registry did not load within ${timeout}ms`));
+          }, timeout);
+    promise.then(
+      (value) => {
+        cleanup();
+        resolve(value);
+      },
+      (err) => {
+        cleanup();
+        reject(err);
+      }
+    );
+    if (signal?.aborted) onAbort();
+    else signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Cached market and asset metadata. The full market and asset lists are
+ * downloaded once and reused until `ttl` expires or `refresh()` is called;
+ * concurrent lookups share a single in-flight load. A caller's `signal` and
+ * `timeout` only bound its own wait, never the shared download.
+ *
+ * @example
+ * const btc = await client.registry.market('btc/usdt');
+ * console.log(btc.id, btc.tick_size);
+ * const eth = await client.registry.asset('ETH');
+ */
+export class MarketRegistry {
+  private snapshot: Snapshot | null = null;
+  private loading: Promise<Snapshot> | null = null;
+  private ttl: number;
+
+  constructor(private markets: MarketsEndpoint, options: MarketRegistryOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * Re-download markets and assets now, regardless of the TTL. A load
+   * already in flight may have started before whatever prompted the
+   * refresh, so a new one is queued behind it instead of joining it.
+   */
+  async refresh(options?: CallOptions): Promise<void> {
+    this.snapshot = null;
+    await waitFor(this.startLoad(), options);
+  }
+
+  /** Drop cached metadata; the next lookup reloads it. */
+  invalidate(): void {
+    this.snapshot = null;
+  }
+
+  /** All markets. */
+  async list(options?: CallOptions): Promise<Market[]> {
+    return (await this.load(options)).markets;
+  }
+
+  /** Look up a market, returning `undefined` if it doesn't exist. */
+  async findMarket(ref: MarketRef, options?: CallOptions): Promise<Market | undefined> {
+    const snapshot = await this.load(options);
+    const id = toId(ref);
+    if (id !== undefined) return snapshot.marketsById.get(id);
+    // Match stored symbols directly: asset symbols may contain `_` themselves.
+    for (const symbol of pairCandidates(String(ref))) {
+      const market = snapshot.marketsBySymbol.get(symbol);
+      if (market) return market;
+    }
+    return undefined;
+  }
+
+  /** Look up a market, throwing `UnknownMarketError` if it doesn't exist. */
+  async market(ref: MarketRef, options?: CallOptions): Promise<Market> {
+    const market = await this.findMarket(ref, options);
+    if (!market) {
+      throw new UnknownMarketError(ref);
+    }
+    return market;
+  }
+
+  /** Trading rules for a market, derived from the cached market list. */
+  async marketInfo(ref: MarketRef, options?: CallOptions): Promise<MarketInfo> {
+    const m = await this.market(ref, options);
+    return {
+      trading_pair_id: m.id,
+      base_symbol: m.base_asset_symbol,
+      base_decimals: m.base_decimals,
+      quote_symbol: m.quote_asset_symbol,
+      quote_decimals: m.quote_decimals,
+      min_trade_amount: m.min_trade_amount,
+      max_trade_amount: m.max_trade_amount,
+      tick_size: m.tick_size,
+      step_size: m.step_size,
+      maker_fee_rate: m.maker_fee_rate,
+      taker_fee_rate: m.taker_fee_rate,
+      price_decimals: m.price_decimals,
+    };
+  }
+
+  /** Canonical `BASE-QUOTE` symbol of a market. */
+  async symbol(ref: MarketRef, options?: CallOptions): Promise<string> {
+    const m = await this.market(ref, options);
+    return `${m.base_asset_symbol}-${m.quote_asset_symbol}`;
+  }
+
+  /** Look up an asset, returning `undefined` if it doesn't exist. */
+  async findAsset(ref: AssetRef, options?: CallOptions): Promise<Asset | undefined> {
+    const snapshot = await this.load(options);
+    const id = toId(ref);
+    if (id !== undefined) return snapshot.assetsById.get(id);
+    return snapshot.assetsBySymbol.get(String(ref).trim().toUpperCase());
+  }
+
+  /** Look up an asset, throwing `UnknownAssetError` if it doesn't exist. */
+  async asset(ref: AssetRef, options?: CallOptions): Promise<Asset> {
+    const asset = await this.findAsset(ref, options);
+    if (!asset) {
+      throw new UnknownAssetError(ref);
+    }
+    return asset;
+  }
+
+  /** All assets. Also makes the registry a cached `AssetSource` for `Amount.forAsset`. */
+  async assets(options?: CallOptions): Promise<Asset[]> {
+    return [...(await this.load(options)).assetsById.values()];
+  }
+
+  private load(options?: CallOptions): Promise<Snapshot> {
+    if (this.snapshot && Date.now() - this.snapshot.loadedAt < this.ttl) {
+      return Promise.resolve(this.snapshot);
+    }
+    return waitFor(this.loading ?? this.startLoad(), options);
+  }
+
+  /**
+   * Start a download after the one in flight, if any, and make it the load
+   * later lookups share. Only the newest load stores its snapshot, so an
+   * older one finishing first can't leave stale data behind. Shared by
+   * every concurrent caller, so no one caller's options apply.
+   */
+  private startLoad(): Promise<Snapshot> {
+    const previous = this.loading ?? Promise.resolve();
+    const loading: Promise<Snapshot> = previous
+      .then(() => undefined, () => undefined)
+      .then(() => this.fetchSnapshot())
+      .then((snapshot) => {
+        if (this.loading === loading) this.snapshot = snapshot;
+        return snapshot;
+      })
+      .finally(() => {
+        if (this.loading === loading) this.loading = null;
+      });
+    this.loading = loading;
+    return loading;
+  }
+
+  private async fetchSnapshot(): Promise<Snapshot> {
+    const [markets, assets] = await Promise.all([this.markets.list(), this.markets.assets()]);
+    return {
+      loadedAt: Date.now(),
+      markets,
+      marketsById: new Map(markets.map((m) => [m.id, m])),
+      marketsBySymbol: new Map(
+        markets.map((m) => [`${m.base_asset_symbol}-${m.quote_asset_symbol}`.toUpperCase(), m])
+      ),
+      assetsById: new Map(assets.map((a) => [a.id, a])),
+      assetsBySymbol: new Map(assets.map((a) => [a.symbol.toUpperCase(), a])),
+    };
+  }
+}
+
+function toId(ref: MarketRef | AssetRef): number | undefined {
+  if (typeof ref === 'number') return ref;
+  return /^\d+$/.test(ref.trim()) ? Number(ref) : undefined;
+}
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  isRetryEligible,
+  parseRetryAfterHeader,
+  resolveRetryPolicy,
+  retryDelay,
+} from './retry';
+import {
+  AuthenticationError,
+  NetworkError,
+  RateLimitError,
+  ServerError,
+  TimeoutError,
+} from './types';
+
+const noJitter = { jitter: false, baseDelay: 100, maxDelay: 1000, maxAttempts: 5 };
+
+describe('resolveRetryPolicy', () => {
+  it('retries GET only by default', () => {
+    const policy = resolveRetryPolicy();
+    expect(isRetryEligible(policy, 'GET', '/api/markets')).toBe(true);
+    expect(isRetryEligible(policy, 'POST', '/api/cancel-order')).toBe(false);
+    expect(isRetryEligible(policy, 'POST', '/api/cancel-order', true)).toBe(true);
+  });
+
+  it('opts endpoints in regardless of method', () => {
+    const policy = resolveRetryPolicy({ endpoints: ['/api/cancel-order'] });
+    expect(isRetryEligible(policy, 'POST', '/api/cancel-order')).toBe(true);
+  });
+
+  it('retries order submits only when the endpoint is listed', () => {
+    const byMethod = resolveRetryPolicy({ methods: ['GET', 'POST'] });
+    expect(isRetryEligible(byMethod, 'POST', '/api/submit-order')).toBe(false);
+    const byEndpoint = resolveRetryPolicy({ endpoints: ['/api/submit-order'] });
+    expect(isRetryEligible(byEndpoint, 'POST', '/api/submit-order')).toBe(true);
+  });
+
+  it('disables retries with false', () => {
+    expect(isRetryEligible(resolveRetryPolicy(false), 'GET', '/api/markets')).toBe(false);
+  });
+});
+
+describe('retryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('backs off exponentially up to maxDelay', () => {
+    const policy = resolveRetryPolicy(noJitter);
+    const error = new ServerError('boom', 503);
+    expect([1, 2, 3, 4].map((n) => retryDelay(policy, error, n))).toEqual([100, 200, 400, 800]);
+    expect(retryDelay(resolveRetryPolicy({ ...noJitter, maxAttempts: 9 }), error, 6)).toBe(1000);
+  });
+
+  it('stops after maxAttempts', () => {
+    const policy = resolveRetryPolicy(noJitter);
+    expect(retryDelay(policy, new NetworkError(), 5)).toBeNull();
+  });
+
+  it('applies full jitter', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+    const policy = resolveRetryPolicy({ ...noJitter, jitter: true });
+    expect(retryDelay(policy, new TimeoutError(), 3)).toBe(100);
+  });
+
+  it('does not retry non-retryable errors', () => {
+    const policy = resolveRetryPolicy(noJitter);
+    expect(retryDelay(policy, new AuthenticationError(), 1)).toBeNull();
+    expect(retryDelay(policy, new ServerError('not implemented', 501), 1)).toBeNull();
+  });
+
+  it('honours retryOnStatus and shouldRetry', () => {
+    const byStatus = resolveRetryPolicy({ ...noJitter, retryOnStatus: [429] });
+    expect(retryDelay(byStatus, new ServerError('boom', 503), 1)).toBeNull();
+    const vetoed = resolveRetryPolicy({ ...noJitter, shouldRetry: () => false });
+    expect(retryDelay(vetoed, new NetworkError(), 1)).toBeNull();
+  });
+
+  it('waits at least as long as Retry-After', () => {
+    const policy = resolveRetryPolicy(noJitter);
+    expect(retryDelay(policy, new RateLimitError(undefined, 0.5), 1)).toBe(500);
+    expect(retryDelay(policy, new RateLimitError(undefined, 0.05), 2)).toBe(200);
+  });
+
+  it('gives up when Retry-After exceeds maxDelay', () => {
+    const policy = resolveRetryPolicy(noJitter);
+    expect(retryDelay(policy, new RateLimitError(undefined, 5), 1)).toBeNull();
+  });
+});
+
+describe('parseRetryAfterHeader', () => {
+  it('parses delta-seconds', () => {
+    expect(parseRetryAfterHeader('3')).toBe(3);
+    expect(parseRetryAfterHeader('-1')).toBe(0);
+    expect(parseRetryAfterHeader(null)).toBeUndefined();
+    expect(parseRetryAfterHeader('soon')).toBeUndefined();
+  });
+
+  it('parses an HTTP date relative to now', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    try {
+      expect(parseRetryAfterHeader('Thu, 01 Jan 2026 00:00:10 GMT')).toBe(10);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
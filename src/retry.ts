@@ -0,0 +1,140 @@
+import { KlingExError, RateLimitError, NetworkError, TimeoutError } from './types';
+import type { HttpMethod, RetryOptions, RetryInfo } from './types';
+
+/** Retry options with defaults applied. */
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  jitter: boolean;
+  /** Explicit status list; `null` defers to each error's `isRetryable`. */
+  retryOnStatus: Set<number> | null;
+  retryOnNetworkError: boolean;
+  methods: Set<HttpMethod>;
+  endpoints: Set<string>;
+  shouldRetry?: (error: KlingExError, attempt: number) => boolean | undefined;
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Only retried when listed in `endpoints`, not by a blanket POST opt-in;
+ * `orders.submit()` then resends it itself, under the same client order ID.
+ */
+const SUBMIT_ORDER = '/api/submit-order';
+
+/**
+ * Apply defaults to user-supplied retry options. `false` yields a policy
+ * with a single attempt, i.e. no retries.
+ */
+export function resolveRetryPolicy(options: RetryOptions | false = {}): RetryPolicy {
+  if (options === false) {
+    return { ...resolveRetryPolicy({}), maxAttempts: 1 };
+  }
+  return {
+    maxAttempts: Math.max(1, options.maxAttempts ?? 3),
+    baseDelay: options.baseDelay ?? 500,
+    maxDelay: options.maxDelay ?? 30000,
+    jitter: options.jitter ?? true,
+    retryOnStatus: options.retryOnStatus ? new Set(options.retryOnStatus) : null,
+    retryOnNetworkError: options.retryOnNetworkError ?? true,
+    methods: new Set(options.methods ?? ['GET']),
+    endpoints: new Set(options.endpoints ?? []),
+    shouldRetry: options.shouldRetry,
+    onRetry: options.onRetry,
+  };
+}
+
+/**
+ * Whether requests to this method/endpoint may be retried at all. A
+ * per-request `override` wins over the policy's method/endpoint lists.
+ */
+export function isRetryEligible(
+  policy: RetryPolicy,
+  method: HttpMethod,
+  endpoint: string,
+  override?: boolean
+): boolean {
+  if (policy.maxAttempts <= 1) return false;
+  if (override !== undefined) return override;
+  if (policy.endpoints.has(endpoint)) return true;
+  return policy.methods.has(method) && endpoint !== SUBMIT_ORDER;
+}
+
+/**
+ * Compute the delay before the next attempt, or `null` if `error` (thrown by
+ * attempt number `attempt`) should not be retried.
+ */
+export function retryDelay(
+  policy: RetryPolicy,
+  error: KlingExError,
+  attempt: number
+): number | null {
+  if (attempt >= policy.maxAttempts) return null;
+
+  const verdict = policy.shouldRetry?.(error, attempt);
+  if (verdict === false) return null;
+  if (verdict === undefined && !isRetryableError(policy, error)) return null;
+
+  let delay = policy.baseDelay * Math.pow(2, attempt - 1);
+  delay = Math.min(delay, policy.maxDelay);
+  if (policy.jitter) {
+    delay = Math.random() * delay;
+  }
+
+  // Honor the server's Retry-After hint. If it asks us to wait longer than
+  // we're ever willing to, give up and surface the RateLimitError instead.
+  if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+    const hinted = error.retryAfter * 1000;
+    if (hinted > policy.maxDelay) return null;
+    delay = Math.max(delay, hinted);
+  }
+
+  return Math.round(delay);
+}
+
+function isRetryableError(policy: RetryPolicy, error: KlingExError): boolean {
+  if (error instanceof NetworkError || error instanceof TimeoutError) {
+    return policy.retryOnNetworkError;
+  }
+  if (policy.retryOnStatus && error.statusCode !== undefined) {
+    return policy.retryOnStatus.has(error.statusCode);
+  }
+  return error.isRetryable;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into seconds.
+ */
+export function parseRetryAfterHeader(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds);
+  }
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, (date - Date.now()) / 1000);
+  }
+  return undefined;
+}
+
+/**
+ * Wait `ms` milliseconds, rejecting early if `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new KlingExError('Request aborted', 'ABORTED'));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new KlingExError('Request aborted', 'ABORTED'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
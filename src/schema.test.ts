@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import * as s from './schema';
+
+interface Level {
+  price: string;
+  note: string | null;
+  tag?: string;
+  side: 'buy' | 'sell';
+}
+
+const level = s.object<Level>({
+  price: s.string(),
+  note: s.nullable(s.string()),
+  tag: s.optional(s.string()),
+  side: s.literal('buy', 'sell'),
+});
+
+describe('validate', () => {
+  it('accepts matching values and ignores extra keys', () => {
+    const value = { price: '1', note: null, side: 'buy', added_later: 1 };
+    expect(s.validate(level, value)).toEqual([]);
+  });
+
+  it('reports every mismatch with its path', () => {
+    expect(s.validate(s.array(level), [{ price: 1, side: 'hold', tag: 2 }])).toEqual([
+      { path: '$[0].price', expected: 'string', received: 'number' },
+      { path: '$[0].note', expected: 'string | null', received: 'missing' },
+      { path: '$[0].tag', expected: 'string', received: 'number' },
+      { path: '$[0].side', expected: '"buy" | "sell"', received: '"hold"' },
+    ]);
+  });
+
+  it('describes the whole nullable type when its value is wrong', () => {
+    expect(s.validate(s.nullable(s.number()), 'x')).toEqual([
+      { path: '$', expected: 'number | null', received: 'string' },
+    ]);
+  });
+
+  it('checks record values and non-object inputs', () => {
+    expect(s.validate(s.record(s.number()), { a: 1, b: '2' })).toEqual([
+      { path: '$.b', expected: 'number', received: 'string' },
+    ]);
+    expect(s.validate(level, [])).toEqual([{ path: '$', expected: 'object', received: 'array' }]);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * Minimal runtime schema combinators used to validate API responses against
+ * the shapes declared in `types/`. Object schemas are typed against the
+ * interface they mirror, and `Schema<T>` is invariant in `T`: a field added
+ * to an interface without a schema entry, or whose schema is stricter or
+ * looser than the field (e.g. a non-null schema for a nullable field), fails
+ * to compile.
+ */
+import type { SchemaIssue } from './types';
+
+/** A schema of any type, as accepted by `validate()` and the HTTP client. */
+export interface AnySchema {
+  /** Human-readable description of accepted values. */
+  readonly expected: string;
+  /** Set on schemas wrapped with `optional()`: the key may be absent. */
+  readonly optional?: boolean;
+  check(value: unknown, path: string, issues: SchemaIssue[]): void;
+}
+
+export interface Schema<T> extends AnySchema {
+  /**
+   * Phantom field carrying the validated type; never set at runtime. A
+   * function type in both positions keeps `Schema<T>` invariant in `T`.
+   */
+  readonly __type?: (value: T) => T;
+}
+
+/** Declared (non-index-signature) keys of `T`. */
+type KnownKey<K> = string extends K ? never : number extends K ? never : K;
+
+/** Every declared key required, each typed exactly as declared (`undefined` included). */
+type ObjectShape<T> = { [K in keyof Required<T> as KnownKey<K>]: Schema<T[K]> };
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return {
+    expected: type,
+    check(value, path, issues) {
+      if (typeof value !== type) {
+        issues.push({ path, expected: type, received: describe(value) });
+      }
+    },
+  };
+}
+
+export function string(): Schema<string> {
+  return primitive<string>('string');
+}
+
+export function number(): Schema<number> {
+  return primitive<number>('number');
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive<boolean>('boolean');
+}
+
+/** Accepts anything. */
+export function unknown(): Schema<unknown> {
+  return { expected: 'unknown', check() {} };
+}
+
+/** One of a fixed set of string values. */
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  const expected = values.map((v) => JSON.stringify(v)).join(' | ');
+  return {
+    expected,
+    check(value, path, issues) {
+      if (!values.includes(value as T)) {
+        issues.push({
+          path,
+          expected,
+          received: typeof value === 'string' ? JSON.stringify(value) : describe(value),
+        });
+      }
+    },
+  };
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    expected: `${inner.expected} | null`,
+    optional: inner.optional,
+    check(value, path, issues) {
+      if (value === null) return;
+      const nested: SchemaIssue[] = [];
+      inner.check(value, path, nested);
+      // Report the nullable type as a whole when the top-level value is wrong.
+      if (nested.length === 1 && nested[0].path === path) {
+        issues.push({ ...nested[0], expected: `${inner.expected} | null` });
+      } else {
+        issues.push(...nested);
+      }
+    },
+  };
+}
+
+/** The key may be missing (or `undefined`) on the enclosing object. */
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    expected: inner.expected,
+    optional: true,
+    check(value, path, issues) {
+      if (value === undefined) return;
+      inner.check(value, path, issues);
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    expected: `${item.expected}[]`,
+    check(value, path, issues) {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: 'array', received: describe(value) });
+        return;
+      }
+      value.forEach((entry, i) => item.check(entry, `${path}[${i}]`, issues));
+    },
+  };
+}
+
+/** String-keyed map with uniformly typed values. */
+export function record<T>(value: Schema<T>): Schema<Record<string, T>> {
+  return {
+    expected: `Record<string, ${value.expected}>`,
+    check(input, path, issues) {
+      if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+        issues.push({ path, expected: 'object', received: describe(input) });
+        return;
+      }
+      for (const [key, entry] of Object.entries(input)) {
+        value.check(entry, `${path}.${key}`, issues);
+      }
+    },
+  };
+}
+
+/**
+ * Object with the given fields. Unknown extra keys are allowed so that
+ * additive backend changes don't trip validation.
+ */
+export function object<T>(shape: ObjectShape<T>): Schema<T> {
+  return {
+    expected: 'object',
+    check(value, path, issues) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      const obj = value as Record<string, unknown>;
+      for (const [key, schema] of Object.entries(shape) as Array<[string, AnySchema]>) {
+        const fieldPath = `${path}.${key}`;
+        if (!(key in obj)) {
+          if (!schema.optional) {
+            issues.push({ path: fieldPath, expected: schema.expected, received: 'missing' });
+          }
+          continue;
+        }
+        schema.check(obj[key], fieldPath, issues);
+      }
+    },
+  };
+}
+
+/** Validate `value`, returning every mismatch found (empty if valid). */
+export function validate(schema: AnySchema, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  schema.check(value, '$', issues);
+  return issues;
+}
@@ -0,0 +1,763 @@
+/**
+ * Runtime schemas for REST responses, mirroring the interfaces in `types/`
+ * and the endpoint modules. Endpoints attach these to their requests; they
+ * are only evaluated when `KlingExConfig.validation` is enabled.
+ */
+import * as s from './schema';
+import type {
+  Asset,
+  AssetInfo,
+  AssetsResponse,
+  Balance,
+  CancelAllOrdersResult,
+  CancelOrderResponse,
+  Invoice,
+  InvoiceDenomination,
+  InvoiceFeeStats,
+  InvoiceListResponse,
+  InvoicePayment,
+  InvoicePaymentOption,
+  InvoiceStatusResponse,
+  InvoiceSummary,
+  Market,
+  MarketInfo,
+  MarketSparklinesResponse,
+  OHLCV,
+  Order,
+  OrderbookRaw,
+  OrderHistoryEntry,
+  OrdersHistoryResponse,
+  PublicInvoice,
+  PublicTrade,
+  SubmitOrderResponse,
+  Ticker,
+  UserOrdersResponse,
+} from './types';
+import type {
+  AddLiquidityResult,
+  PoolDetail,
+  PoolListItem,
+  PositionHistoryResponse,
+  RemoveLiquidityResult,
+  UserPosition,
+} from './endpoints/pools';
+import type {
+  WalletAssetStatusDetail,
+  WalletAssetSync,
+  WalletsStatus,
+} from './endpoints/wallets';
+import type {
+  PoolBlock,
+  PoolBlocksResponse,
+  PoolConfig,
+  PoolLeaderboard,
+  PoolPayout,
+  PoolPayoutsResponse,
+  PoolReward,
+  PoolRewardsResponse,
+  PoolStats,
+  PoolWorker,
+  PoolWorkersResponse,
+} from './endpoints/miningPool';
+
+const str = s.string();
+const num = s.number();
+const bool = s.boolean();
+const nullableStr = s.nullable(str);
+const nullableNum = s.nullable(num);
+const optionalStr = s.optional(str);
+const optionalNullableStr = s.optional(nullableStr);
+
+/** `{ data: T }` envelope used by invoice and pool routes. */
+function envelope<T>(data: s.Schema<T>): s.Schema<{ data: T }> {
+  return s.object<{ data: T }>({ data });
+}
+
+const orderSide = s.literal('buy', 'sell');
+const orderType = s.literal('limit', 'market');
+const orderStatus = s.literal('pending', 'partial', 'filled', 'cancelled', 'rejected');
+const invoiceStatus = s.literal('pending', 'paid', 'expired', 'cancelled', 'overpaid', 'underpaid');
+
+// ============================================================================
+// Markets
+// ============================================================================
+
+export const market = s.object<Market>({
+  id: num,
+  base_asset_id: num,
+  quote_asset_id: num,
+  min_trade_amount: str,
+  max_trade_amount: nullableStr,
+  tick_size: str,
+  step_size: str,
+  maker_fee_rate: str,
+  taker_fee_rate: str,
+  price_decimals: num,
+  is_active: bool,
+  created_at: str,
+  updated_at: str,
+  base_asset_symbol: str,
+  base_asset_name: str,
+  quote_asset_symbol: str,
+  quote_asset_name: str,
+  volume_24h: nullableStr,
+  priceChange24h: nullableStr,
+  last_price: nullableStr,
+  base_decimals: num,
+  quote_decimals: num,
+  volume_24h_human: nullableStr,
+});
+
+export const marketList = s.array(market);
+
+export const marketInfo = s.object<MarketInfo>({
+  trading_pair_id: num,
+  base_symbol: str,
+  base_decimals: num,
+  quote_symbol: str,
+  quote_decimals: num,
+  min_trade_amount: str,
+  max_trade_amount: nullableStr,
+  tick_size: str,
+  step_size: str,
+  maker_fee_rate: str,
+  taker_fee_rate: str,
+  price_decimals: num,
+});
+
+export const asset = s.object<Asset>({
+  id: num,
+  symbol: str,
+  name: str,
+  decimals: num,
+  min_deposit: str,
+  min_withdrawal: str,
+  withdrawal_fee: str,
+  is_active: s.optional(bool),
+});
+
+export const assetsResponse = s.object<AssetsResponse>({
+  assets: s.array(asset),
+});
+
+export const assetInfo = s.object<AssetInfo>({
+  id: num,
+  symbol: str,
+  name: str,
+  decimals: num,
+  is_active: s.optional(bool),
+  chain_type: optionalNullableStr,
+  contract_address: optionalNullableStr,
+  chain_id: s.optional(nullableNum),
+  parent_asset_id: s.optional(nullableNum),
+  min_deposit: optionalStr,
+  min_withdrawal: optionalStr,
+  withdrawal_fee: optionalStr,
+  deposits_enabled: s.optional(bool),
+  withdrawal_enabled: s.optional(bool),
+});
+
+export const sparklines = s.object<MarketSparklinesResponse>({
+  timeframe: str,
+  limit: num,
+  sparklines: s.record(s.array(s.object({ time_bucket: str, price: str }))),
+});
+
+export const ticker = s.object<Ticker>({
+  ticker_id: str,
+  base_currency: str,
+  target_currency: str,
+  last_price: str,
+  base_volume: str,
+  target_volume: str,
+  bid: str,
+  ask: str,
+  high: str,
+  low: str,
+});
+
+export const tickerList = s.array(ticker);
+
+export const orderbookRaw = s.object<OrderbookRaw>({
+  trading_pair_id: num,
+  base_symbol: str,
+  quote_symbol: str,
+  bids: s.array(s.array(str)),
+  asks: s.array(s.array(str)),
+});
+
+export const ohlcvList = s.array(
+  s.object<OHLCV>({
+    time_bucket: str,
+    open_price: nullableStr,
+    high_price: nullableStr,
+    low_price: nullableStr,
+    close_price: nullableStr,
+    volume: nullableStr,
+    number_of_trades: nullableNum,
+  })
+);
+
+export const publicTradeList = s.array(
+  s.object<PublicTrade>({
+    id: str,
+    trading_pair_id: num,
+    taker_order_id: str,
+    maker_order_id: str,
+    price: str,
+    amount: str,
+    taker_fee: str,
+    maker_fee: str,
+    side: orderSide,
+    created_at: nullableStr,
+  })
+);
+
+// ============================================================================
+// Orders
+// ============================================================================
+
+export const order = s.object<Order>({
+  id: str,
+  trading_pair_id: num,
+  side: orderSide,
+  type: orderType,
+  price: str,
+  amount: str,
+  filled_amount: str,
+  status: orderStatus,
+  created_at: str,
+  updated_at: str,
+  human_price: optionalNullableStr,
+  human_amount: optionalStr,
+  human_filled_amount: optionalStr,
+  human_remaining: optionalStr,
+  human_total: optionalStr,
+  client_order_id: optionalNullableStr,
+});
+
+export const userOrders = s.object<UserOrdersResponse>({
+  orders: s.array(order),
+});
+
+export const submitOrder = s.object<SubmitOrderResponse>({
+  message: str,
+  order_id: str,
+  client_order_id: optionalStr,
+});
+
+export const cancelOrder = s.object<CancelOrderResponse>({
+  message: str,
+  released_balance: str,
+});
+
+export const cancelAllOrders = s.object<CancelAllOrdersResult>({
+  message: str,
+  cancelledCount: num,
+  totalOrders: num,
+  cancelledOrderIds: s.array(str),
+  totalReleasedBalance: str,
+});
+
+export const ordersHistory = s.object<OrdersHistoryResponse>({
+  orders: s.array(
+    s.object<OrderHistoryEntry>({
+      id: str,
+      trading_pair_id: num,
+      base_symbol: str,
+      quote_symbol: str,
+      type: orderType,
+      side: orderSide,
+      status: orderStatus,
+      price: nullableStr,
+      amount: str,
+      filled_amount: str,
+      created_at: str,
+      updated_at: str,
+      human_price: nullableStr,
+      human_amount: str,
+      human_filled_amount: str,
+      human_remaining: str,
+      human_total: str,
+      client_order_id: optionalNullableStr,
+    })
+  ),
+  total: num,
+  limit: num,
+  offset: num,
+});
+
+// ============================================================================
+// Wallet
+// ============================================================================
+
+export const balanceList = s.array(
+  s.object<Balance>({
+    balance: str,
+    locked_balance: str,
+    wallet_id: nullableStr,
+    deposit_address: nullableStr,
+    payment_id: optionalNullableStr,
+    id: num,
+    symbol: str,
+    name: str,
+    is_crypto: bool,
+    chain_type: nullableStr,
+    decimals: num,
+    min_deposit: str,
+    min_withdrawal: str,
+    withdrawal_fee: str,
+    deposit_fee: str,
+    deposit_fee_threshold: str,
+    deposit_confirms_required: num,
+    contract_address: nullableStr,
+    chain_id: nullableNum,
+    evm_network: nullableStr,
+    parent_asset_id: nullableNum,
+    usdt_value: str,
+    deposits_enabled: bool,
+    withdrawal_enabled: bool,
+    supports_shielded: bool,
+    shielded_address_mode: str,
+    shielded_deposit_address: optionalNullableStr,
+    // Computed by the SDK after the response is received.
+    available_balance: optionalStr,
+    human_balance: optionalStr,
+    human_locked: optionalStr,
+    human_available: optionalStr,
+  })
+);
+
+const walletAssetSync = s.object<WalletAssetSync>({
+  asset_id: num,
+  symbol: str,
+  name: str,
+  network_name: str,
+  chain_id: nullableNum,
+  block_number: nullableNum,
+  processed_at: nullableStr,
+  sync_status: str,
+  seconds_since_last_sync: nullableNum,
+  explorer_url: nullableStr,
+  deposits_enabled: bool,
+  withdrawals_enabled: bool,
+});
+
+export const walletsStatus = s.object<WalletsStatus>({
+  overall_status: str,
+  system_health_percentage: num,
+  last_updated: str,
+  status_counts: s.object({
+    active: num,
+    delayed: num,
+    stale: num,
+    never_synced: num,
+  }),
+  total_assets: num,
+  chain_groups: s.array(
+    s.object({
+      network_name: str,
+      chain_id: nullableNum,
+      assets: s.array(walletAssetSync),
+    })
+  ),
+});
+
+export const walletAssetStatus = s.object<WalletAssetStatusDetail>({
+  asset_id: num,
+  symbol: str,
+  name: str,
+  chain_type: nullableStr,
+  network_name: str,
+  chain_id: nullableNum,
+  contract_address: nullableStr,
+  explorer_url: nullableStr,
+  is_active: s.nullable(bool),
+  withdrawal_enabled: bool,
+  deposit_confirms_required: num,
+  sync_info: s.object({
+    current_block: nullableNum,
+    last_processed_at: nullableStr,
+    sync_status: str,
+    seconds_since_last_sync: nullableNum,
+  }),
+});
+
+// ============================================================================
+// Invoices
+// ============================================================================
+
+const invoiceDenomination = s.object<InvoiceDenomination>({
+  type: str,
+  currency: str,
+  amount: str,
+  decimals: num,
+});
+
+const invoicePaymentOption = s.object<InvoicePaymentOption>({
+  asset_id: num,
+  symbol: str,
+  name: str,
+  chain_type: optionalStr,
+  chain_id: s.optional(nullableNum),
+  network: optionalStr,
+  address: str,
+  shielded_address: optionalNullableStr,
+  expected_amount: str,
+  exchange_rate: optionalNullableStr,
+  qr_code_data: optionalStr,
+});
+
+const invoicePayment = s.object<InvoicePayment>({
+  id: str,
+  asset_id: num,
+  symbol: str,
+  amount: str,
+  tx_hash: str,
+  from_address: optionalNullableStr,
+  status: str,
+  confirmations: num,
+  confirmations_required: num,
+  denomination_value: optionalNullableStr,
+  exchange_rate_used: optionalNullableStr,
+  confirmed_at: optionalNullableStr,
+  created_at: str,
+});
+
+export const invoice = envelope(
+  s.object<Invoice>({
+    id: str,
+    external_id: optionalNullableStr,
+    status: invoiceStatus,
+    denomination: invoiceDenomination,
+    payment_options: s.optional(s.array(invoicePaymentOption)),
+    payments: s.optional(s.array(invoicePayment)),
+    description: optionalNullableStr,
+    metadata: s.optional(s.record(s.unknown())),
+    buyer_email: optionalNullableStr,
+    fee_rate_bps: num,
+    fee_rate_percent: str,
+    total_received: optionalStr,
+    fee_amount: optionalStr,
+    net_amount: optionalStr,
+    expires_at: str,
+    paid_at: optionalNullableStr,
+    created_at: str,
+    payment_page_url: optionalStr,
+  })
+);
+
+export const invoiceList = envelope(
+  s.object<InvoiceListResponse>({
+    invoices: s.array(
+      s.object<InvoiceSummary>({
+        id: str,
+        external_id: optionalNullableStr,
+        status: invoiceStatus,
+        denomination_type: str,
+        denomination_currency: str,
+        amount: str,
+        total_received: str,
+        fee_amount: str,
+        net_amount: str,
+        expires_at: str,
+        paid_at: optionalNullableStr,
+        created_at: str,
+      })
+    ),
+    total_count: num,
+    page: num,
+    page_size: num,
+  })
+);
+
+export const invoiceStatusResponse = envelope(
+  s.object<InvoiceStatusResponse>({
+    invoice_id: str,
+    status: invoiceStatus,
+    total_paid_percent: num,
+    payments: s.optional(s.array(invoicePayment)),
+    paid_at: optionalNullableStr,
+    time_remaining_ms: num,
+  })
+);
+
+export const invoiceFeeStats = envelope(
+  s.object<InvoiceFeeStats>({
+    total_fees_collected: str,
+    total_net_amount: str,
+    paid_invoice_count: num,
+    current_fee_rate_bps: num,
+    current_fee_rate_percent: str,
+  })
+);
+
+export const publicInvoice = envelope(
+  s.object<PublicInvoice>({
+    invoice_id: str,
+    status: invoiceStatus,
+    denomination: invoiceDenomination,
+    description: optionalNullableStr,
+    merchant_name: str,
+    expires_at: str,
+    time_remaining_ms: num,
+    payment_options: s.array(invoicePaymentOption),
+    payments_received: s.optional(s.array(invoicePayment)),
+    total_paid_percent: num,
+  })
+);
+
+export const invoiceCancel = s.object<{ message: string }>({ message: str });
+
+// ============================================================================
+// Liquidity pools
+// ============================================================================
+
+const poolListItemShape = {
+  id: num,
+  base_symbol: str,
+  quote_symbol: str,
+  base_reserve: str,
+  quote_reserve: str,
+  base_decimals: num,
+  quote_decimals: num,
+  total_lp_tokens: str,
+  pool_fee_rate: str,
+  spot_price: str,
+  is_public: bool,
+  deposits_paused: bool,
+  withdrawals_paused: bool,
+};
+
+export const poolList = envelope(s.array(s.object<PoolListItem>(poolListItemShape)));
+
+export const poolDetail = envelope(
+  s.object<PoolDetail>({
+    ...poolListItemShape,
+    k_value: str,
+    min_liquidity: str,
+    order_levels: num,
+    active_orders: num,
+    lp_position_count: num,
+  })
+);
+
+export const userPositions = envelope(
+  s.array(
+    s.object<UserPosition>({
+      pool_id: num,
+      base_symbol: str,
+      quote_symbol: str,
+      lp_token_balance: str,
+      base_deposited: str,
+      quote_deposited: str,
+      base_decimals: num,
+      quote_decimals: num,
+      base_value: str,
+      quote_value: str,
+      share_pct: str,
+      base_earned: str,
+      quote_earned: str,
+      net_earned_quote: str,
+      approx_fees_earned: str,
+    })
+  )
+);
+
+export const positionHistory = envelope(
+  s.object<PositionHistoryResponse>({
+    pool_id: num,
+    base_symbol: str,
+    quote_symbol: str,
+    base_decimals: num,
+    quote_decimals: num,
+    history: s.array(
+      s.object({
+        timestamp: str,
+        lp_token_balance: str,
+        base_value: str,
+        quote_value: str,
+        total_value_quote: str,
+        net_earned_quote: str,
+        share_pct: str,
+        spot_price: str,
+      })
+    ),
+  })
+);
+
+export const addLiquidity = envelope(
+  s.object<AddLiquidityResult>({
+    pool_id: num,
+    base_used: str,
+    quote_used: str,
+    lp_tokens_minted: str,
+    is_bootstrap: bool,
+    total_lp_supply: str,
+  })
+);
+
+export const removeLiquidity = envelope(
+  s.object<RemoveLiquidityResult>({
+    pool_id: num,
+    lp_tokens_burned: str,
+    base_out: str,
+    quote_out: str,
+    total_lp_supply: str,
+  })
+);
+
+// ============================================================================
+// Mining pool
+// ============================================================================
+
+export const poolConfigs = s.object<{ pools: PoolConfig[] }>({
+  pools: s.array(
+    s.object<PoolConfig>({
+      algorithm: str,
+      symbol: str,
+      stratum_port: num,
+      pool_fee_percent: num,
+      pool_hashrate: str,
+      min_difficulty: num,
+    })
+  ),
+});
+
+export const poolBlocks = s.object<PoolBlocksResponse>({
+  blocks: s.array(
+    s.object<PoolBlock>({
+      id: num,
+      asset_id: num,
+      symbol: str,
+      block_height: num,
+      block_hash: str,
+      block_reward: str,
+      pool_fee: str,
+      confirmations: num,
+      required_confirmations: num,
+      status: str,
+      found_at: str,
+      matured_at: nullableStr,
+      credited_at: nullableStr,
+      asset_decimals: num,
+    })
+  ),
+  total: num,
+  limit: num,
+  offset: num,
+});
+
+export const poolStats = s.object<PoolStats>({
+  symbol: str,
+  current: s.object({
+    pool_hashrate: str,
+    network_hashrate: str,
+    network_difficulty: num,
+    online_workers: num,
+    active_miners: num,
+    block_height: num,
+    blocks_24h: s.optional(num),
+    current_effort: s.optional(num),
+    ttf_minutes: s.optional(num),
+    net_share: s.optional(num),
+    last_block_found: optionalStr,
+    luck_24h: s.optional(num),
+  }),
+  history: s.array(
+    s.object({
+      timestamp: str,
+      pool_hashrate: str,
+      network_hashrate: str,
+      network_difficulty: num,
+      online_workers: num,
+      active_miners: num,
+    })
+  ),
+});
+
+export const poolLeaderboard = s.object<PoolLeaderboard>({
+  symbol: str,
+  period: str,
+  miners: s.array(
+    s.object({
+      user_id: str,
+      total_rewards: str,
+      reward_formatted: str,
+      blocks_found: num,
+      total_shares: num,
+      hashrate: str,
+      worker_count: num,
+    })
+  ),
+});
+
+export const poolWorkers = s.object<PoolWorkersResponse>({
+  workers: s.array(
+    s.object<PoolWorker>({
+      worker_name: str,
+      symbol: str,
+      hashrate_1m: str,
+      difficulty: num,
+      shares_accepted: num,
+      shares_rejected: num,
+      shares_stale: num,
+      is_online: bool,
+      last_share_at: nullableStr,
+      connected_at: nullableStr,
+      disconnected_at: nullableStr,
+    })
+  ),
+});
+
+export const poolRewards = s.object<PoolRewardsResponse>({
+  rewards: s.array(
+    s.object<PoolReward>({
+      id: str,
+      block_id: num,
+      asset_id: num,
+      asset_symbol: str,
+      asset_name: str,
+      asset_decimals: num,
+      reward_amount: str,
+      reward_amount_formatted: str,
+      shares: num,
+      total_shares: num,
+      status: str,
+      created_at: str,
+      credited_at: nullableStr,
+      block_height: num,
+      block_hash: str,
+      block_status: str,
+      confirmations: num,
+      required_confirmations: num,
+      found_at: str,
+    })
+  ),
+  total: num,
+  limit: num,
+  offset: num,
+});
+
+export const poolPayouts = s.object<PoolPayoutsResponse>({
+  payouts: s.array(
+    s.object<PoolPayout>({
+      id: str,
+      wallet_id: str,
+      reward_id: nullableStr,
+      block_id: nullableNum,
+      asset_id: num,
+      asset_symbol: str,
+      asset_name: str,
+      asset_decimals: num,
+      amount: str,
+      amount_formatted: str,
+      created_at: str,
+      block_height: nullableNum,
+      block_hash: nullableStr,
+    })
+  ),
+  total: num,
+  limit: num,
+  offset: num,
+});
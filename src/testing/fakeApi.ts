@@ -0,0 +1,52 @@
+/**
+ * In-memory REST backend for specs, injected through `KlingExConfig.fetch`
+ * so requests still go through the real `HttpClient`. Not part of the
+ * published bundle.
+ */
+
+export interface ApiRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: unknown;
+  headers: Record<string, string>;
+}
+
+/**
+ * Answers one route: a JSON body for a 200, or a `Response` for anything
+ * else. May be async, e.g. to hold a response until the spec releases it.
+ */
+export type RouteHandler = (request: ApiRequest) => unknown;
+
+/** Routes keyed `"METHOD /path"`; a non-function value is a fixed body. */
+export type Routes = Record<string, RouteHandler | object>;
+
+export function json(status: number, body: unknown, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'content-type': 'application/json', ...headers },
+  });
+}
+
+/** A `fetch` serving `routes`, plus a log of every request it received. */
+export function fakeApi(routes: Routes) {
+  const requests: ApiRequest[] = [];
+  const fetch = async (input: string | URL | Request, init: RequestInit = {}) => {
+    const url = new URL(String(input));
+    const request: ApiRequest = {
+      method: init.method ?? 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      body: typeof init.body === 'string' ? JSON.parse(init.body) : undefined,
+      headers: { ...(init.headers as Record<string, string>) },
+    };
+    requests.push(request);
+    const route = routes[`${request.method} ${request.path}`];
+    if (route === undefined) {
+      return json(404, { error: `No route for ${request.method} ${request.path}` });
+    }
+    const result = typeof route === 'function' ? await route(request) : route;
+    return result instanceof Response ? result : json(200, result);
+  };
+  return { fetch, requests };
+}
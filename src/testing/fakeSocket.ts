@@ -0,0 +1,82 @@
+/**
+ * In-memory WebSocket for specs, injected through `webSocketFactory` so
+ * frames still go through the real `KlingExWebSocket`. Not part of the
+ * published bundle.
+ */
+import type { KlingExWebSocket } from '../websocket';
+import type { WebSocketLike } from '../types';
+
+/** A socket the spec opens, feeds and closes by hand. */
+export class FakeSocket implements WebSocketLike {
+  readyState = 0;
+  /** Every frame the client sent, parsed. */
+  sent: Array<Record<string, unknown>> = [];
+  onopen: WebSocketLike['onopen'] = null;
+  onclose: WebSocketLike['onclose'] = null;
+  onerror: WebSocketLike['onerror'] = null;
+  onmessage: WebSocketLike['onmessage'] = null;
+
+  constructor(readonly url: string) {}
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data) as Record<string, unknown>);
+  }
+
+  close(code = 1000, reason = ''): void {
+    this.readyState = 3;
+    this.onclose?.({ code, reason, wasClean: code === 1000 });
+  }
+
+  open(): void {
+    this.readyState = 1;
+    this.onopen?.({});
+  }
+
+  /** Close abnormally, as a network failure would. */
+  drop(): void {
+    this.readyState = 3;
+    this.onclose?.({ code: 1006, reason: '', wasClean: false });
+  }
+
+  /** Deliver a server frame. */
+  push(message: Record<string, unknown>): void {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  /** Answer the `auth` frame sent on open. */
+  authenticate(success = true): void {
+    this.push({ type: 'auth_result', success, ...(success ? {} : { error: 'Invalid API key' }) });
+  }
+
+  /** Frames sent with `action`, e.g. `'subscribe'` or `'place_order'`. */
+  actions(action: string): Array<Record<string, unknown>> {
+    return this.sent.filter((frame) => frame.action === action);
+  }
+}
+
+/** A `webSocketFactory` handing out `FakeSocket`s, plus every socket it made. */
+export function fakeSockets() {
+  const sockets: FakeSocket[] = [];
+  const webSocketFactory = (url: string) => {
+    const socket = new FakeSocket(url);
+    sockets.push(socket);
+    return socket;
+  };
+  return { webSocketFactory, sockets, latest: () => sockets[sockets.length - 1] };
+}
+
+/**
+ * Run `ws.connect()` against the socket it creates: open it, accept the
+ * API key and resolve once the connection is ready.
+ */
+export async function connectFake(
+  ws: KlingExWebSocket,
+  latest: () => FakeSocket
+): Promise<FakeSocket> {
+  const connecting = ws.connect();
+  const socket = latest();
+  socket.open();
+  socket.authenticate();
+  await connecting;
+  return socket;
+}
@@ -0,0 +1,17 @@
+import type { WebSocketFactory } from './types';
+
+/** `WebSocket.OPEN` — spelled out so we never touch a missing global. */
+export const WS_OPEN = 1;
+
+/**
+ * Default socket factory: the global `WebSocket` where one exists (browsers,
+ * Node 22+), otherwise the `ws` package, loaded on first use so browser
+ * bundles never pull it in.
+ */
+export async function defaultWebSocketFactory(): Promise<WebSocketFactory> {
+  if (typeof WebSocket !== 'undefined') {
+    return (url) => new WebSocket(url);
+  }
+  const { default: NodeWebSocket } = await import('ws');
+  return (url) => new NodeWebSocket(url);
+}
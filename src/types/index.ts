@@ -13,12 +13,219 @@ export interface KlingExConfig {
   timeout?: number;
   /** Use human-readable values for orders by default (default: true) */
   humanReadable?: boolean;
+  /**
+   * Automatic retry policy for REST requests. Only idempotent GETs are
+   * retried unless `retry.methods` / `retry.endpoints` opt more in. Pass
+   * `false` to disable retries entirely.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Client-side rate limiting. When set, requests are queued through token
+   * buckets before they are sent. Disabled by default.
+   */
+  rateLimit?: RateLimitOptions;
+  /**
+   * Ordered request/response middleware. The first entry is outermost: it
+   * sees the request first and the response (or error) last.
+   */
+  middleware?: Middleware[];
+  /**
+   * `fetch` implementation for REST calls (default: the global `fetch`).
+   * Use it to route through a proxy/custom agent or to inject a fake.
+   */
+  fetch?: typeof fetch;
+  /**
+   * Creates the socket for `client.ws` and `createWebSocket()`. Defaults to
+   * the global `WebSocket`, falling back to the bundled `ws` package on
+   * Node versions without one.
+   */
+  webSocketFactory?: WebSocketFactory;
+  /**
+   * Runtime response validation against the SDK's schemas (default: 'off').
+   * `'warn'` reports mismatches through `onSchemaMismatch` and returns the
+   * response anyway; `'strict'` also throws a `SchemaMismatchError` for GET
+   * requests. Mutating calls have already taken effect, so strict mode only
+   * reports their mismatches.
+   */
+  validation?: ValidationMode;
+  /** Receives every schema mismatch when `validation` is enabled. */
+  onSchemaMismatch?: (mismatch: SchemaMismatch) => void;
+  /** How long `client.registry` caches market/asset metadata, in ms (default: 5 min). */
+  registryTtl?: number;
+}
+
+export type ValidationMode = 'off' | 'warn' | 'strict';
+
+export interface SchemaIssue {
+  /** Location of the mismatch, e.g. `$[3].last_price`. */
+  path: string;
+  /** Description of what the schema accepts, e.g. `string | null`. */
+  expected: string;
+  /** Runtime type that was actually received (`missing` for absent keys). */
+  received: string;
+}
+
+export interface SchemaMismatch {
+  method: HttpMethod;
+  endpoint: string;
+  issues: SchemaIssue[];
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'DELETE';
+
+export interface RetryOptions {
+  /** Maximum attempts per request, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Base delay for exponential backoff in milliseconds (default: 500) */
+  baseDelay?: number;
+  /** Upper bound for a single backoff delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Apply full jitter to backoff delays (default: true) */
+  jitter?: boolean;
+  /**
+   * HTTP statuses that are retried. By default an error is retried when its
+   * `isRetryable` flag is set: 408, 429 and 5xx other than 501/505.
+   */
+  retryOnStatus?: number[];
+  /** Retry network failures and timeouts (default: true) */
+  retryOnNetworkError?: boolean;
+  /** Methods that are retried automatically (default: ['GET']) */
+  methods?: HttpMethod[];
+  /**
+   * Endpoints retried regardless of method, e.g. `['/api/cancel-order']`.
+   * Only opt non-idempotent routes in if a duplicate is acceptable.
+   * `/api/submit-order` is only retried when listed here, not via
+   * `methods`; `orders.submit()` then resends under the same
+   * `clientOrderId`, after checking the failed attempt didn't place it.
+   */
+  endpoints?: string[];
+  /**
+   * Final say on whether a failed attempt is retried. Return `undefined` to
+   * fall back to the status/network rules above.
+   */
+  shouldRetry?: (error: KlingExError, attempt: number) => boolean | undefined;
+  /** Called before sleeping ahead of each retry. */
+  onRetry?: (info: RetryInfo) => void;
+}
+
+/**
+ * Mutable view of an outgoing REST request handed to each middleware.
+ * Changes made before calling `next()` are what gets sent.
+ */
+export interface RequestContext {
+  method: HttpMethod;
+  /** Path relative to `baseUrl`, e.g. `/api/orderbook`. */
+  endpoint: string;
+  params?: Record<string, string | number | boolean | undefined>;
+  body?: unknown;
+  /** Outgoing headers, including `X-API-Key` — redact before logging. */
+  headers: Record<string, string>;
+}
+
+/**
+ * Request middleware. Call `next()` to continue down the chain and receive
+ * the parsed response (or the thrown `KlingExError`); return a value without
+ * calling `next()` to short-circuit with a synthetic response.
+ *
+ * @example
+ * const timing: Middleware = async (ctx, next) => {
+ *   const started = Date.now();
+ *   try {
+ *     return await next();
+ *   } finally {
+ *     console.log(`${ctx.method} ${ctx.endpoint} ${Date.now() - started}ms`);
+ *   }
+ * };
+ */
+export type Middleware = (
+  ctx: RequestContext,
+  next: () => Promise<unknown>
+) => Promise<unknown>;
+
+/** Scheduling lane for a queued request. Higher lanes are dispatched first. */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface TokenBucketOptions {
+  /** Maximum burst size. */
+  capacity: number;
+  /** Tokens added per second. */
+  refillPerSecond: number;
+}
+
+export interface RateLimitRoute {
+  /** Endpoint prefix (e.g. `/api/submit-order`) or a pattern to test the endpoint against. */
+  match: string | RegExp;
+  /** Name of the bucket in `RateLimitOptions.buckets` this route draws from. */
+  bucket: string;
+  /** Default priority for requests on this route (default: 'normal'). */
+  priority?: RequestPriority;
+}
+
+export interface RateLimitOptions {
+  /**
+   * Bucket every request draws from in addition to its route bucket
+   * (default: 20 burst, 10/s). `false` removes the global budget.
+   */
+  global?: TokenBucketOptions | false;
+  /**
+   * Named per-route buckets. Merged over the defaults, which define
+   * `trading` (10 burst, 5/s), `marketData` (20 burst, 10/s) and
+   * `orderQueries` (5 burst, 2/s).
+   */
+  buckets?: Record<string, TokenBucketOptions>;
+  /**
+   * Route -> bucket mapping; the first match wins. Replaces the defaults,
+   * which send order submission/cancellation to `trading`, open-order and
+   * order-history queries to `orderQueries`, and public market-data routes
+   * to `marketData`.
+   */
+  routes?: RateLimitRoute[];
+  /**
+   * Halve a bucket's refill rate when a `RateLimitError` is observed on it,
+   * recovering gradually on subsequent successes (default: true).
+   */
+  adaptive?: boolean;
+}
+
+export interface RetryInfo {
+  method: HttpMethod;
+  endpoint: string;
+  /** The attempt that just failed (1-based). */
+  attempt: number;
+  /** Milliseconds until the next attempt. */
+  delay: number;
+  error: KlingExError;
 }
 
 // ============================================================================
 // Common Types
 // ============================================================================
 
+/**
+ * Per-call options accepted as the last argument of every endpoint method.
+ *
+ * @example
+ * const controller = new AbortController();
+ * const book = client.markets.orderbook(1, { signal: controller.signal });
+ * controller.abort(); // rejects with KlingExError code 'ABORTED'
+ */
+export interface CallOptions {
+  /** Cancels the request, including any rate-limit queueing or retry backoff. */
+  signal?: AbortSignal;
+  /** Per-attempt timeout in milliseconds, overriding `KlingExConfig.timeout`. */
+  timeout?: number;
+  /** Extra headers sent with this request. */
+  headers?: Record<string, string>;
+}
+
+/**
+ * How amount fields on withdrawals, gift codes and liquidity calls are read:
+ * `raw` (default) is an integer string in the asset's smallest unit, `human`
+ * a decimal string converted with the asset's `decimals`. Human values with
+ * more precision than the asset allows are rejected with an `AmountError`.
+ */
+export type AmountUnits = 'human' | 'raw';
+
 export interface ApiResponse<T> {
   success?: boolean;
   data?: T;
@@ -181,6 +388,20 @@ export interface OHLCV {
 
 export type Timeframe = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w';
 
+/** A public trade from `markets.trades()`. */
+export interface PublicTrade {
+  id: string;
+  trading_pair_id: number;
+  taker_order_id: string;
+  maker_order_id: string;
+  price: string;
+  amount: string;
+  taker_fee: string;
+  maker_fee: string;
+  side: 'buy' | 'sell';
+  created_at: string | null;
+}
+
 // ============================================================================
 // Order Types
 // ============================================================================
@@ -190,10 +411,10 @@ export type OrderStatus = 'pending' | 'partial' | 'filled' | 'cancelled' | 'reje
 export type OrderType = 'limit' | 'market';
 
 export interface SubmitOrderParams {
-  /** Trading pair symbol (e.g., "BTC-USDT") */
+  /** Trading pair symbol (e.g., "BTC-USDT", "BTC/USDT" or "BTC_USDT") */
   symbol: string;
-  /** Trading pair ID */
-  tradingPairId: number;
+  /** Trading pair ID. Resolved from `symbol` via the market registry if omitted. */
+  tradingPairId?: number;
   /** Order side */
   side: OrderSide;
   /** Order quantity (human-readable by default, e.g., "1.5") */
@@ -202,6 +423,22 @@ export interface SubmitOrderParams {
   price: string;
   /** If true, quantity/price are in base units. If false (default), human-readable. */
   rawValues?: boolean;
+  /**
+   * Check price and quantity against the market's trading rules (tick/step
+   * size, min/max amount, price decimals) before sending. `'round'` snaps
+   * them to the nearest valid value instead of throwing. Human values only:
+   * combining it with `rawValues` throws a `ValidationError`.
+   */
+  preflight?: boolean | 'round';
+  /**
+   * Idempotency key for this order (generated if omitted). Reuse it, with
+   * the same order parameters, when retrying a submit whose outcome is
+   * unknown: the SDK looks for an existing order with this key before
+   * sending it again. A generated key is reported as
+   * `OrderOutcomeUnknownError.clientOrderId`; retrying without it gets a
+   * new key and could place a second order.
+   */
+  clientOrderId?: string;
 }
 
 export interface Order {
@@ -221,6 +458,8 @@ export interface Order {
   human_filled_amount?: string;
   human_remaining?: string;
   human_total?: string;
+  /** Client order ID, if the server echoes it. */
+  client_order_id?: string | null;
 }
 
 export interface UserOrdersResponse {
@@ -230,6 +469,8 @@ export interface UserOrdersResponse {
 export interface SubmitOrderResponse {
   message: string;
   order_id: string;
+  /** The order's client order ID (set by the SDK if the server doesn't echo it). */
+  client_order_id?: string;
 }
 
 export interface CancelOrderParams {
@@ -284,6 +525,8 @@ export interface OrderHistoryEntry {
   human_filled_amount: string;
   human_remaining: string;
   human_total: string;
+  /** Client order ID, if the server echoes it. */
+  client_order_id?: string | null;
 }
 
 export interface OrdersHistoryResponse {
@@ -533,6 +776,185 @@ export type UserChannel =
   | 'trades'
   | 'account';
 
+/** `[price, quantity]` as sent on the wire (numbers on some legacy frames). */
+export type WsOrderbookLevel = [price: string | number, quantity: string | number];
+
+/**
+ * Server frames are forwarded as-is, so every payload interface is open:
+ * fields not listed here are still present at runtime.
+ */
+interface WsFrame {
+  [key: string]: unknown;
+}
+
+/** `ticker_update` (legacy `ticker`) on a market subscription. */
+export interface WsTickerUpdate extends WsFrame {
+  type: 'ticker_update' | 'ticker';
+  market: string;
+  last_price?: string;
+  bid?: string;
+  ask?: string;
+  high?: string;
+  low?: string;
+  volume?: string;
+}
+
+/** Full book: `orderbook_snapshot` (legacy `orderbook`). */
+export interface WsOrderbookSnapshot extends WsFrame {
+  type: 'orderbook_snapshot' | 'orderbook';
+  market: string;
+  bids: WsOrderbookLevel[];
+  asks: WsOrderbookLevel[];
+  sequence?: number;
+}
+
+/** Incremental book change; a zero quantity removes the level. */
+export interface WsOrderbookUpdate extends WsFrame {
+  type: 'orderbook_update';
+  market: string;
+  bids?: WsOrderbookLevel[];
+  asks?: WsOrderbookLevel[];
+  sequence?: number;
+}
+
+/** Public trade: `trade_update` (legacy `trade` / `trades`). */
+export interface WsTradeUpdate extends WsFrame {
+  type: 'trade_update' | 'trade' | 'trades';
+  market: string;
+  side?: 'buy' | 'sell';
+  price?: string;
+  amount?: string;
+}
+
+/** Any frame delivered to a `subscribeMarket` handler. */
+export type WsMarketEvent =
+  | WsTickerUpdate
+  | WsOrderbookSnapshot
+  | WsOrderbookUpdate
+  | WsTradeUpdate;
+
+/** Frame on the global `markets` list channel. */
+export interface WsMarketsListUpdate extends WsFrame {
+  type?: string;
+  market: 'markets';
+}
+
+/** Fields shared by private user-channel frames. */
+interface WsUserFrame extends WsFrame {
+  user_id?: string;
+}
+
+export interface WsBalanceEvent extends WsUserFrame {
+  type: 'balance_update' | 'balance_updated';
+  symbol?: string;
+  balance?: string;
+  locked_balance?: string;
+}
+
+export interface WsOrderEvent extends WsUserFrame {
+  type:
+    | 'order_created'
+    | 'order_updated'
+    | 'order_placed'
+    | 'order_partial'
+    | 'order_filled'
+    | 'order_cancelled'
+    | 'order_rejected';
+  id?: string;
+  market?: string;
+  trading_pair_id?: number;
+  side?: 'buy' | 'sell';
+  status?: OrderStatus;
+  price?: string;
+  amount?: string;
+  filled_amount?: string;
+}
+
+export interface WsTransferEvent extends WsUserFrame {
+  type: 'transfer_updated';
+}
+
+export interface WsDepositEvent extends WsUserFrame {
+  type:
+    | 'deposit_created'
+    | 'deposit_confirming'
+    | 'deposit_completed'
+    | 'deposit_rejected'
+    | 'deposit_updated';
+  symbol?: string;
+  amount?: string;
+  status?: string;
+  tx_hash?: string;
+  confirmations?: number;
+}
+
+export interface WsWithdrawalEvent extends WsUserFrame {
+  type:
+    | 'withdrawal_pending'
+    | 'withdrawal_processing'
+    | 'withdrawal_completed'
+    | 'withdrawal_failed'
+    | 'withdrawal_updated';
+  symbol?: string;
+  amount?: string;
+  status?: string;
+  tx_hash?: string;
+}
+
+/** A fill on one of your orders. */
+export interface WsUserTradeEvent extends WsUserFrame {
+  type: 'user_trade' | 'trade_filled';
+  market?: string;
+  order_id?: string;
+  side?: 'buy' | 'sell';
+  price?: string;
+  amount?: string;
+}
+
+export interface WsNotificationEvent extends WsUserFrame {
+  type: 'new_notification';
+}
+
+export interface WsAccountEvent extends WsUserFrame {
+  type: 'account_event';
+}
+
+/** Payload type delivered on each user channel. */
+export interface WsUserEventMap {
+  balance: WsBalanceEvent;
+  orders: WsOrderEvent;
+  transfer: WsTransferEvent;
+  deposits: WsDepositEvent;
+  withdrawals: WsWithdrawalEvent;
+  notifications: WsNotificationEvent;
+  trades: WsUserTradeEvent;
+  account: WsAccountEvent;
+}
+
+/** Any private user-channel frame. */
+export type WsUserEvent = WsUserEventMap[UserChannel];
+
+/** Candle frame for a `subscribeOhlcv` subscription. */
+export interface WsOhlcvUpdate extends WsFrame, Partial<OHLCV> {
+  type?: string;
+  market_id: number;
+  timeframe: string;
+}
+
+/** Payment progress for a `subscribeInvoice` subscription. */
+export interface WsInvoiceUpdate extends WsFrame {
+  type?: string;
+  invoice_id: string;
+  status?: InvoiceStatus;
+}
+
+/** QR-login progress for a `subscribeQR` subscription. */
+export interface WsQrUpdate extends WsFrame {
+  type?: string;
+  session_token: string;
+  status?: string;
+}
+
 export interface WsOrderResult {
   type: 'order_result';
   success: boolean;
@@ -562,57 +984,389 @@ export interface WsCancelOrderParams {
   tradingPairId: number;
 }
 
+/** Options for one request/response call over the WebSocket. */
+export interface WsRequestOptions {
+  /** How long to wait for the response once sent, in ms (default: `requestTimeout`). */
+  timeout?: number;
+  /**
+   * Stops waiting: a queued request is dropped, a sent one's response is
+   * ignored. The server may still act on a request it already received.
+   */
+  signal?: AbortSignal;
+}
+
+/**
+ * Actions with a typed `request()`: `params` is sent alongside `action` and
+ * `requestId`, `response` is the frame that answers it. Other actions can
+ * still be sent through the untyped `request()` overload.
+ */
+export interface WsRequestMap {
+  place_order: { params: WsPlaceOrderParams; response: WsOrderResult };
+  cancel_order: { params: WsCancelOrderParams; response: WsCancelResult };
+}
+
+type Listener<E> = { bivarianceHack(event: E): void }['bivarianceHack'];
+
+/**
+ * The subset of the WHATWG `WebSocket` interface the SDK relies on. Both the
+ * browser/Node global `WebSocket` and the `ws` package satisfy it.
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(code?: number, reason?: string): void;
+  onopen: Listener<unknown> | null;
+  onclose: Listener<{ code: number; reason: string; wasClean: boolean }> | null;
+  onerror: Listener<unknown> | null;
+  onmessage: Listener<{ data: unknown }> | null;
+}
+
+/**
+ * Creates a WebSocket for the given URL.
+ *
+ * @example
+ * import WebSocket from 'ws';
+ * const client = new KlingEx({
+ *   apiKey: 'your-api-key',
+ *   webSocketFactory: (url) => new WebSocket(url, { agent: proxyAgent }),
+ * });
+ */
+export type WebSocketFactory = (url: string) => WebSocketLike;
+
 export interface WebSocketOptions {
   /** Reconnect automatically on disconnect (default: true) */
   reconnect?: boolean;
-  /** Reconnect interval in milliseconds (default: 5000) */
+  /** Base reconnect delay in ms, grown 1.5× per attempt (default: 5000) */
   reconnectInterval?: number;
-  /** Maximum reconnection attempts (default: 10) */
+  /** Upper bound on the reconnect delay in ms (default: 60000) */
+  maxReconnectDelay?: number;
+  /**
+   * Pick each reconnect delay uniformly from `[0, backoff]` ("full jitter")
+   * so many clients don't reconnect in lockstep after an outage (default: true)
+   */
+  reconnectJitter?: boolean;
+  /** Maximum reconnection attempts; `Infinity` retries forever (default: 10) */
   maxReconnectAttempts?: number;
+  /**
+   * Also reconnect when the server closes the connection cleanly, e.g. for
+   * a deploy (default: true). Closes from `disconnect()` never reconnect.
+   */
+  reconnectOnCleanClose?: boolean;
+  /**
+   * How long a connection must stay open before the attempt counter resets,
+   * in ms (default: 30000; `0` resets as soon as it opens). Stops a server
+   * that accepts and then immediately drops connections from being retried
+   * at the shortest delay forever.
+   */
+  reconnectResetAfter?: number;
   /** Auth timeout in ms — how long to wait for auth_result after sending the auth message (default: 10000) */
   authTimeout?: number;
+  /** Heartbeat ping interval in ms (default: 30000) */
+  pingInterval?: number;
+  /**
+   * How long to wait for each ping's `pong` before treating the connection
+   * as dead and reconnecting, in ms (default: 10000; `0` disables the check)
+   */
+  pongTimeout?: number;
+  /**
+   * How long `placeOrder` / `cancelOrder` calls made while the socket isn't
+   * connected and authenticated wait for it before failing with
+   * `NotConnectedError`, in ms (default: 0 — fail immediately)
+   */
+  requestQueueTimeout?: number;
+  /** Default time to wait for a request's response once sent, in ms (default: 10000) */
+  requestTimeout?: number;
+  /** Socket constructor override (default: global `WebSocket`, else the `ws` package) */
+  webSocketFactory?: WebSocketFactory;
 }
 
 // ============================================================================
 // Error Types
 // ============================================================================
 
+/** Request details attached to errors raised by the REST client. */
+export interface ErrorContext {
+  method?: HttpMethod;
+  endpoint?: string;
+  /** Machine-readable error code from the response body, if the server sent one. */
+  serverCode?: string;
+  /** Request ID from the `X-Request-Id` header or `request_id` body field. */
+  requestId?: string;
+}
+
+/** API-key permission scopes. */
+export type ApiKeyScope = 'read' | 'trade' | 'withdraw' | 'liquidity';
+
 export class KlingExError extends Error {
+  method?: HttpMethod;
+  endpoint?: string;
+  serverCode?: string;
+  requestId?: string;
+
   constructor(
     message: string,
     public code?: string,
     public statusCode?: number,
-    public details?: unknown
+    public details?: unknown,
+    context: ErrorContext = {}
   ) {
     super(message);
     this.name = 'KlingExError';
+    this.method = context.method;
+    this.endpoint = context.endpoint;
+    this.serverCode = context.serverCode;
+    this.requestId = context.requestId;
+  }
+
+  /** Whether repeating the same request may succeed. */
+  get isRetryable(): boolean {
+    return false;
   }
 }
 
 export class AuthenticationError extends KlingExError {
-  constructor(message = 'Authentication failed') {
-    super(message, 'AUTH_ERROR', 401);
+  constructor(message = 'Authentication failed', context?: ErrorContext) {
+    super(message, 'AUTH_ERROR', 401, undefined, context);
     this.name = 'AuthenticationError';
   }
 }
 
+/**
+ * 403 — the API key is valid but lacks the scope this route requires
+ * (`trade` for orders/gift codes, `withdraw` for withdrawals, `liquidity`
+ * for LP operations).
+ */
+export class PermissionError extends KlingExError {
+  constructor(
+    message = 'Permission denied',
+    public requiredScope?: ApiKeyScope,
+    context?: ErrorContext
+  ) {
+    super(message, 'PERMISSION_DENIED', 403, undefined, context);
+    this.name = 'PermissionError';
+  }
+}
+
+export class NotFoundError extends KlingExError {
+  constructor(message = 'Not found', context?: ErrorContext) {
+    super(message, 'NOT_FOUND', 404, undefined, context);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends KlingExError {
+  constructor(message = 'Conflict', details?: unknown, context?: ErrorContext) {
+    super(message, 'CONFLICT', 409, details, context);
+    this.name = 'ConflictError';
+  }
+}
+
 export class RateLimitError extends KlingExError {
-  constructor(message = 'Rate limit exceeded', public retryAfter?: number) {
-    super(message, 'RATE_LIMIT', 429);
+  constructor(
+    message = 'Rate limit exceeded',
+    public retryAfter?: number,
+    context?: ErrorContext
+  ) {
+    super(message, 'RATE_LIMIT', 429, undefined, context);
     this.name = 'RateLimitError';
   }
+
+  get isRetryable(): boolean {
+    return true;
+  }
 }
 
 export class ValidationError extends KlingExError {
-  constructor(message: string, details?: unknown) {
-    super(message, 'VALIDATION_ERROR', 400, details);
+  constructor(message: string, details?: unknown, context?: ErrorContext) {
+    super(message, 'VALIDATION_ERROR', 400, details, context);
     this.name = 'ValidationError';
   }
 }
 
+/**
+ * Client-side amount error: malformed decimal, more precision than the
+ * asset allows, mismatched assets in arithmetic, or an unknown asset.
+ */
+export class AmountError extends KlingExError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'INVALID_AMOUNT', undefined, details);
+    this.name = 'AmountError';
+  }
+}
+
+/** Client-side: `client.registry` has no market matching `ref`. */
+export class UnknownMarketError extends KlingExError {
+  constructor(public ref: string | number) {
+    super(`Unknown market: ${ref}`, 'UNKNOWN_MARKET');
+    this.name = 'UnknownMarketError';
+  }
+}
+
+/** Client-side: `client.registry` has no asset matching `ref`. */
+export class UnknownAssetError extends KlingExError {
+  constructor(public ref: string | number) {
+    super(`Unknown asset: ${ref}`, 'UNKNOWN_ASSET');
+    this.name = 'UnknownAssetError';
+  }
+}
+
+/** Trading rule an order failed client-side pre-flight validation on. */
+export type OrderRule =
+  | 'price_decimals'
+  | 'tick_size'
+  | 'step_size'
+  | 'min_trade_amount'
+  | 'max_trade_amount';
+
+/**
+ * An order failed pre-flight validation against its market's trading rules.
+ * Raised client-side before submission; `nearestValid` is the closest value
+ * that satisfies `rule`.
+ */
+export class OrderValidationError extends ValidationError {
+  constructor(
+    message: string,
+    public rule: OrderRule,
+    public field: 'price' | 'quantity',
+    public value: string,
+    public nearestValid: string
+  ) {
+    super(message, { rule, field, value, nearestValid });
+    this.name = 'OrderValidationError';
+    // Raised before any request, so there is no HTTP status.
+    this.statusCode = undefined;
+  }
+}
+
 export class InsufficientFundsError extends KlingExError {
-  constructor(message = 'Insufficient funds') {
-    super(message, 'INSUFFICIENT_FUNDS', 400);
+  constructor(message = 'Insufficient funds', context?: ErrorContext) {
+    super(message, 'INSUFFICIENT_FUNDS', 400, undefined, context);
     this.name = 'InsufficientFundsError';
   }
 }
+
+/** 5xx response. Retryable except for 501 Not Implemented / 505. */
+export class ServerError extends KlingExError {
+  constructor(message: string, statusCode = 500, details?: unknown, context?: ErrorContext) {
+    super(message, 'SERVER_ERROR', statusCode, details, context);
+    this.name = 'ServerError';
+  }
+
+  get isRetryable(): boolean {
+    return this.statusCode !== 501 && this.statusCode !== 505;
+  }
+}
+
+/** The request exceeded its timeout (client-side, or a 408 from the server). */
+export class TimeoutError extends KlingExError {
+  constructor(message = 'Request timeout', context?: ErrorContext) {
+    super(message, 'TIMEOUT', 408, undefined, context);
+    this.name = 'TimeoutError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/** A GET response did not match its schema while `validation` is `'strict'`. */
+export class SchemaMismatchError extends KlingExError {
+  constructor(public issues: SchemaIssue[], details?: unknown, context?: ErrorContext) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(
+      `Response from ${context?.method ?? ''} ${context?.endpoint ?? ''} does not match schema: ` +
+        `${first?.path} expected ${first?.expected}, received ${first?.received}${more}`,
+      'SCHEMA_MISMATCH',
+      undefined,
+      details,
+      context
+    );
+    this.name = 'SchemaMismatchError';
+  }
+}
+
+/** The request never produced an HTTP response (DNS, connection reset, ...). */
+export class NetworkError extends KlingExError {
+  constructor(message = 'Network error', context?: ErrorContext) {
+    super(message, 'NETWORK_ERROR', undefined, undefined, context);
+    this.name = 'NetworkError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/**
+ * A WebSocket request was not sent: the socket wasn't connected and
+ * authenticated (within `requestQueueTimeout`, if set). Safe to retry.
+ */
+export class NotConnectedError extends KlingExError {
+  constructor(message = 'WebSocket is not connected') {
+    super(message, 'NOT_CONNECTED');
+    this.name = 'NotConnectedError';
+  }
+
+  get isRetryable(): boolean {
+    return true;
+  }
+}
+
+/** `waitForFill()` on an order that ended cancelled or rejected. */
+export class OrderNotFilledError extends KlingExError {
+  constructor(public orderId: string, public status: OrderStatus, public filledAmount: string) {
+    super(`Order ${orderId} ended ${status} (filled ${filledAmount})`, 'ORDER_NOT_FILLED');
+    this.name = 'OrderNotFilledError';
+  }
+}
+
+/**
+ * A tracked order is neither open nor in order history, so its outcome
+ * can't be known (e.g. an ID that was never placed).
+ */
+export class OrderLostError extends KlingExError {
+  constructor(public orderId: string) {
+    super(`Order ${orderId} is not open and was not found in order history`, 'ORDER_LOST');
+    this.name = 'OrderLostError';
+  }
+}
+
+/**
+ * A WebSocket stream opened with `failOnDisconnect` lost its connection.
+ * Messages sent while disconnected are missed, so re-sync before reopening.
+ */
+export class StreamDisconnectedError extends KlingExError {
+  constructor(public closeCode: number, public reason: string) {
+    super(`WebSocket disconnected (code ${closeCode}); stream ended`, 'STREAM_DISCONNECTED');
+    this.name = 'StreamDisconnectedError';
+  }
+}
+
+/**
+ * A submit failed in a way that may or may not have placed the order (a
+ * timeout, network error or 5xx). Either the SDK couldn't look (the server
+ * doesn't echo `client_order_id`, or the lookup failed), or it didn't find
+ * the order among open and recent ones. Resubmitting with the same
+ * `clientOrderId` and parameters looks again before sending; otherwise
+ * check your open orders before placing it again.
+ */
+export class OrderOutcomeUnknownError extends KlingExError {
+  constructor(public clientOrderId: string, public cause?: unknown) {
+    super(
+      `Outcome of order ${clientOrderId} is unknown; check open orders before resubmitting`,
+      'ORDER_OUTCOME_UNKNOWN',
+      undefined,
+      cause
+    );
+    this.name = 'OrderOutcomeUnknownError';
+  }
+}
+
+/** A WebSocket stream's buffer filled up under the `'error'` overflow policy. */
+export class StreamOverflowError extends KlingExError {
+  constructor(public bufferSize: number) {
+    super(`Stream buffer overflow: ${bufferSize} messages unread`, 'STREAM_OVERFLOW');
+    this.name = 'StreamOverflowError';
+  }
+}
@@ -0,0 +1,512 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KlingExWebSocket } from './websocket';
+import { NotConnectedError, TimeoutError } from './types';
+import type { WebSocketOptions } from './types';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+import type { FakeSocket } from './testing/fakeSocket';
+
+const order = {
+  symbol: 'BTC-USDT',
+  tradingPairId: 1,
+  side: 'BUY',
+  quantity: '0.5',
+  price: '100',
+};
+
+/** Answer the last `place_order` frame on `socket` with an accepted order. */
+function acceptOrder(socket: FakeSocket, orderId = 'o-1'): void {
+  const frames = socket.actions('place_order');
+  const { requestId } = frames[frames.length - 1];
+  socket.push({ type: 'order_result', requestId, success: true, orderId });
+}
+
+function connection(options: WebSocketOptions = {}) {
+  const { webSocketFactory, sockets, latest } = fakeSockets();
+  const ws = new KlingExWebSocket(
+    'wss://example.test/ws',
+    { apiKey: 'key' },
+    { webSocketFactory, reconnectInterval: 100, reconnectJitter: false, ...options }
+  );
+  return { ws, sockets, latest, connect: () => connectFake(ws, latest) };
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('heartbeat', () => {
+  it('pings on an interval and records pong latency', async () => {
+    const { ws, connect } = connection({ pingInterval: 1000, pongTimeout: 500 });
+    const socket = await connect();
+    const latencies: number[] = [];
+    ws.on('pong', (latency) => latencies.push(latency));
+    expect(ws.latency).toEqual({ last: undefined, mean: undefined, p99: undefined, samples: 0 });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    for (const delay of [20, 40, 30]) {
+      await vi.advanceTimersByTimeAsync(delay);
+      socket.push({ type: 'pong' });
+      await vi.advanceTimersByTimeAsync(1000 - delay);
+    }
+    expect(socket.actions('ping')).toHaveLength(4);
+    expect(latencies).toEqual([20, 40, 30]);
+    expect(ws.latency).toEqual({ last: 30, mean: 30, p99: 40, samples: 3 });
+    expect(ws.state).toBe('open');
+  });
+
+  it('drops a connection that stops answering and reconnects', async () => {
+    const { ws, sockets, latest, connect } = connection({ pingInterval: 1000, pongTimeout: 500 });
+    const socket = await connect();
+    const errors: string[] = [];
+    const closes: Array<[number, string]> = [];
+    ws.on('error', (err) => errors.push(err.message));
+    ws.on('close', (code, reason) => closes.push([code, reason]));
+
+    await vi.advanceTimersByTimeAsync(1499);
+    expect(closes).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(errors).toEqual(['No pong within 500ms; reconnecting']);
+    expect(closes).toEqual([[4000, 'Pong timeout']]);
+    expect(socket.readyState).toBe(3);
+    expect(ws.state).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sockets).toHaveLength(2);
+    latest().open();
+    latest().authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ws.state).toBe('open');
+  });
+
+  it('can be turned off with pongTimeout 0', async () => {
+    const { ws, connect } = connection({ pingInterval: 1000, pongTimeout: 0 });
+    const socket = await connect();
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(socket.actions('ping')).toHaveLength(60);
+    expect(ws.state).toBe('open');
+  });
+});
+
+describe('request queue', () => {
+  it('sends only the net subscriptions, after auth', async () => {
+    const { ws, latest } = connection();
+    const connecting = ws.connect();
+    const socket = latest();
+    ws.subscribeMarket('BTC-USDT', () => undefined)();
+    ws.subscribeMarket('ETH-USDT', () => undefined);
+    socket.open();
+    expect(socket.sent).toEqual([{ type: 'auth', apiKey: 'key' }]);
+
+    socket.authenticate();
+    await connecting;
+    expect(socket.sent.slice(1)).toEqual([{ action: 'subscribe', market: 'ETH-USDT' }]);
+  });
+
+  it('refuses requests while disconnected by default', async () => {
+    const { ws, sockets } = connection();
+    await expect(ws.placeOrder(order)).rejects.toBeInstanceOf(NotConnectedError);
+    expect(sockets).toHaveLength(0);
+  });
+
+  it('holds requests until the connection has authenticated', async () => {
+    const { ws, latest } = connection({ requestQueueTimeout: 1000 });
+    const connecting = ws.connect();
+    const socket = latest();
+    const placing = ws.placeOrder(order);
+    socket.open();
+    expect(socket.sent.map((frame) => frame.type ?? frame.action)).toEqual(['auth']);
+
+    socket.authenticate();
+    await connecting;
+    expect(socket.actions('place_order')).toEqual([
+      expect.objectContaining({ ...order, requestId: expect.any(String) }),
+    ]);
+    acceptOrder(socket);
+    await expect(placing).resolves.toMatchObject({ success: true, orderId: 'o-1' });
+  });
+
+  it('drops a held request after requestQueueTimeout', async () => {
+    const { ws, latest } = connection({ requestQueueTimeout: 1000 });
+    const connecting = ws.connect();
+    const placing = ws.placeOrder(order);
+    const failed = expect(placing).rejects.toThrow('WebSocket not connected within 1000ms');
+    await vi.advanceTimersByTimeAsync(1000);
+    await failed;
+    await expect(placing).rejects.toBeInstanceOf(NotConnectedError);
+
+    latest().open();
+    latest().authenticate();
+    await connecting;
+    expect(latest().actions('place_order')).toEqual([]);
+  });
+
+  it('drops held requests on abort and on disconnect()', async () => {
+    const { ws, latest } = connection({ requestQueueTimeout: 1000 });
+    void ws.connect().catch(() => undefined);
+    const controller = new AbortController();
+    const aborted = ws.placeOrder(order, { signal: controller.signal });
+    const closed = ws.placeOrder(order);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+
+    ws.disconnect();
+    await expect(closed).rejects.toThrow('Client disconnected');
+    expect(latest().actions('place_order')).toEqual([]);
+  });
+
+  it('holds requests across a reconnect', async () => {
+    const { ws, latest, connect } = connection({ requestQueueTimeout: 1000 });
+    const socket = await connect();
+    socket.drop();
+    const placing = ws.placeOrder(order);
+    expect(socket.actions('place_order')).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    const next = latest();
+    next.open();
+    next.authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    acceptOrder(next, 'o-2');
+    await expect(placing).resolves.toMatchObject({ orderId: 'o-2' });
+  });
+});
+
+describe('reconnect', () => {
+  /** Every `reconnecting` event as `[attempt, delay]`. */
+  function backoffs(ws: KlingExWebSocket): Array<[number, number]> {
+    const seen: Array<[number, number]> = [];
+    ws.on('reconnecting', (attempt, delay) => seen.push([attempt, delay]));
+    return seen;
+  }
+
+  it('backs off 1.5x per attempt up to maxReconnectDelay', async () => {
+    const { ws, latest, connect } = connection({ maxReconnectDelay: 200 });
+    const seen = backoffs(ws);
+    (await connect()).drop();
+    for (const delay of [100, 150, 200]) {
+      await vi.advanceTimersByTimeAsync(delay);
+      latest().drop();
+    }
+    expect(seen).toEqual([
+      [1, 100],
+      [2, 150],
+      [3, 200],
+      [4, 200],
+    ]);
+    expect(ws.reconnectAttempt).toBe(4);
+  });
+
+  it('picks each delay from [0, backoff] with jitter', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.25);
+    try {
+      const { ws, connect } = connection({ reconnectJitter: true });
+      const seen = backoffs(ws);
+      (await connect()).drop();
+      expect(seen).toEqual([[1, 25]]);
+    } finally {
+      vi.restoreAllMocks();
+    }
+  });
+
+  it('gives up after maxReconnectAttempts', async () => {
+    const { ws, sockets, latest, connect } = connection({ maxReconnectAttempts: 2 });
+    const failed = vi.fn();
+    ws.on('reconnectFailed', failed);
+    (await connect()).drop();
+    await vi.advanceTimersByTimeAsync(100);
+    latest().drop();
+    await vi.advanceTimersByTimeAsync(150);
+    latest().drop();
+
+    expect(ws.state).toBe('closed');
+    expect(failed).toHaveBeenCalledWith(new Error('Max reconnection attempts reached'));
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sockets).toHaveLength(3);
+  });
+
+  it('reconnects after a clean server close unless told not to', async () => {
+    const clean = connection();
+    (await clean.connect()).close(1000, 'Restarting');
+    expect(clean.ws.state).toBe('reconnecting');
+
+    const stay = connection({ reconnectOnCleanClose: false });
+    (await stay.connect()).close(1000, 'Restarting');
+    expect(stay.ws.state).toBe('closed');
+
+    const manual = connection();
+    await manual.connect();
+    manual.ws.disconnect();
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(manual.sockets).toHaveLength(1);
+  });
+
+  it('resets the attempt counter once a connection stays up', async () => {
+    const { ws, latest, connect } = connection({ reconnectResetAfter: 1000 });
+    const seen = backoffs(ws);
+    (await connect()).drop();
+    await vi.advanceTimersByTimeAsync(100);
+    latest().open();
+    latest().authenticate();
+    await vi.advanceTimersByTimeAsync(999);
+    expect(ws.reconnectAttempt).toBe(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(ws.reconnectAttempt).toBe(0);
+
+    latest().drop();
+    expect(seen).toEqual([
+      [1, 100],
+      [1, 100],
+    ]);
+  });
+
+  it('reconnects at once on reconnect(), keeping subscriptions', async () => {
+    const { ws, sockets, latest, connect } = connection();
+    const first = await connect();
+    ws.subscribeMarket('BTC-USDT', () => undefined);
+    first.drop();
+    expect(ws.reconnectAttempt).toBe(1);
+
+    const reconnecting = ws.reconnect();
+    expect(sockets).toHaveLength(2);
+    latest().open();
+    latest().authenticate();
+    await reconnecting;
+    expect(ws.reconnectAttempt).toBe(0);
+    expect(latest().actions('subscribe')).toEqual([{ action: 'subscribe', market: 'BTC-USDT' }]);
+
+    // The backoff timer from the drop was cancelled.
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('keeps backing off when creating the socket throws', async () => {
+    const { webSocketFactory, sockets, latest } = fakeSockets();
+    let failures = 0;
+    const ws = new KlingExWebSocket(
+      'wss://example.test/ws',
+      { apiKey: 'key' },
+      {
+        reconnectInterval: 100,
+        reconnectJitter: false,
+        webSocketFactory: (url) => {
+          if (failures > 0) {
+            failures--;
+            throw new Error('EMFILE');
+          }
+          return webSocketFactory(url);
+        },
+      }
+    );
+    const seen = backoffs(ws);
+    const errors: string[] = [];
+    ws.on('error', (err) => errors.push(err.message));
+    const socket = await connectFake(ws, latest);
+
+    failures = 2;
+    socket.drop();
+    await vi.advanceTimersByTimeAsync(100 + 150);
+    expect(ws.state).toBe('reconnecting');
+    expect(errors).toEqual(['EMFILE', 'EMFILE']);
+
+    await vi.advanceTimersByTimeAsync(225);
+    expect(sockets).toHaveLength(2);
+    latest().open();
+    latest().authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ws.state).toBe('open');
+    expect(seen).toEqual([
+      [1, 100],
+      [2, 150],
+      [3, 225],
+    ]);
+  });
+
+  it('stops at maxReconnectAttempts when creating the socket keeps throwing', async () => {
+    const { webSocketFactory, sockets, latest } = fakeSockets();
+    let broken = false;
+    const ws = new KlingExWebSocket(
+      'wss://example.test/ws',
+      { apiKey: 'key' },
+      {
+        reconnectInterval: 100,
+        reconnectJitter: false,
+        maxReconnectAttempts: 2,
+        webSocketFactory: (url) => {
+          if (broken) throw new Error('EMFILE');
+          return webSocketFactory(url);
+        },
+      }
+    );
+    const failed = vi.fn();
+    ws.on('error', () => undefined);
+    ws.on('reconnectFailed', failed);
+    const socket = await connectFake(ws, latest);
+
+    broken = true;
+    socket.drop();
+    await vi.advanceTimersByTimeAsync(100 + 150);
+    expect(ws.state).toBe('closed');
+    expect(failed).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sockets).toHaveLength(1);
+  });
+});
+
+describe('setApiKey', () => {
+  it('re-authenticates a live connection and restores user channels', async () => {
+    const { ws, sockets, latest, connect } = connection();
+    const first = await connect();
+    ws.userOrders(() => undefined);
+    expect(first.actions('subscribe')).toEqual([{ action: 'subscribe', type: 'orders' }]);
+
+    const rotating = ws.setApiKey('key-2');
+    expect(first.readyState).toBe(3);
+    const next = latest();
+    next.open();
+    expect(next.sent).toEqual([{ type: 'auth', apiKey: 'key-2' }]);
+    next.authenticate();
+    await rotating;
+    expect(next.actions('subscribe')).toEqual([{ action: 'subscribe', type: 'orders' }]);
+    expect(ws.state).toBe('open');
+    expect(sockets).toHaveLength(2);
+  });
+
+  it('uses the new key for a socket that has not sent auth yet', async () => {
+    const { ws, sockets, latest } = connection();
+    const connecting = ws.connect();
+    await ws.setApiKey('key-2');
+    latest().open();
+    latest().authenticate();
+    await connecting;
+    expect(latest().sent[0]).toEqual({ type: 'auth', apiKey: 'key-2' });
+    expect(sockets).toHaveLength(1);
+  });
+
+  it('hands a connect() still waiting for auth over to the new connection', async () => {
+    const { ws, latest } = connection();
+    const connecting = ws.connect();
+    latest().open();
+    const rotating = ws.setApiKey('key-2');
+    latest().open();
+    latest().authenticate();
+    await Promise.all([connecting, rotating]);
+    expect(latest().sent[0]).toEqual({ type: 'auth', apiKey: 'key-2' });
+    expect(ws.state).toBe('open');
+  });
+
+  it('rejects and closes without reconnecting when the new key is refused', async () => {
+    const { ws, sockets, latest, connect } = connection();
+    await connect();
+    const errors: string[] = [];
+    ws.on('error', (err) => errors.push(err.message));
+
+    const rotating = ws.setApiKey('revoked');
+    latest().open();
+    latest().authenticate(false);
+    await expect(rotating).rejects.toThrow('Invalid API key');
+    expect(errors).toEqual(['Invalid API key']);
+    expect(ws.state).toBe('closed');
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sockets).toHaveLength(2);
+  });
+});
+
+describe('request', () => {
+  /** The `requestId` of the last frame sent with `action`. */
+  function requestId(socket: FakeSocket, action: string): unknown {
+    const frames = socket.actions(action);
+    return frames[frames.length - 1].requestId;
+  }
+
+  it('matches responses on requestId and the registered type', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const first = ws.placeOrder(order);
+    const second = ws.placeOrder({ ...order, price: '101' });
+    const [firstId, secondId] = socket.actions('place_order').map((frame) => frame.requestId);
+    expect(firstId).not.toBe(secondId);
+
+    // A frame of another type echoing the ID is not the answer.
+    socket.push({ type: 'cancel_result', requestId: secondId, success: true });
+    socket.push({ type: 'order_result', requestId: secondId, success: true, orderId: 'o-2' });
+    socket.push({ type: 'order_result', requestId: firstId, success: true, orderId: 'o-1' });
+    await expect(first).resolves.toMatchObject({ orderId: 'o-1' });
+    await expect(second).resolves.toMatchObject({ orderId: 'o-2' });
+  });
+
+  it('sends any action, matching its response type once registered', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const open = ws.request('open_orders', { tradingPairId: 1 });
+    expect(socket.actions('open_orders')).toEqual([
+      { action: 'open_orders', requestId: expect.any(String), tradingPairId: 1 },
+    ]);
+    socket.push({ type: 'anything', requestId: requestId(socket, 'open_orders'), orders: [] });
+    await expect(open).resolves.toMatchObject({ orders: [] });
+
+    ws.registerResponse('open_orders', 'open_orders_result');
+    const typed = ws.request('open_orders');
+    const id = requestId(socket, 'open_orders');
+    socket.push({ type: 'anything', requestId: id });
+    socket.push({ type: 'open_orders_result', requestId: id, orders: [1] });
+    await expect(typed).resolves.toMatchObject({ type: 'open_orders_result', orders: [1] });
+  });
+
+  it('rejects on an error frame for the request and on a failed result', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const errors: string[] = [];
+    ws.on('error', (err) => errors.push(err.message));
+
+    const cancelling = ws.cancelOrder({ orderId: 'o-1', tradingPairId: 1 });
+    const id = requestId(socket, 'cancel_order');
+    socket.push({ type: 'error', requestId: id, message: 'Unknown order' });
+    await expect(cancelling).rejects.toThrow('Unknown order');
+
+    const placing = ws.placeOrder(order);
+    const orderId = requestId(socket, 'place_order');
+    socket.push({ type: 'order_result', requestId: orderId, success: false, error: 'No funds' });
+    await expect(placing).rejects.toThrow('No funds');
+
+    socket.push({ type: 'error', message: 'Rate limited' });
+    expect(errors).toEqual(['Rate limited']);
+  });
+
+  it('times out per request and ignores a late response', async () => {
+    const { ws, connect } = connection({ requestTimeout: 5000 });
+    const socket = await connect();
+    const slow = ws.request('open_orders', {}, { timeout: 500 });
+    const failed = expect(slow).rejects.toThrow('No open_orders response within 500ms');
+    await vi.advanceTimersByTimeAsync(500);
+    await failed;
+    await expect(slow).rejects.toBeInstanceOf(TimeoutError);
+
+    const handler = vi.fn();
+    ws.subscribeMarket('BTC-USDT', handler);
+    const late = requestId(socket, 'open_orders');
+    socket.push({ type: 'ticker', market: 'BTC-USDT', requestId: late });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels on abort and fails in-flight requests when the connection drops', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    await expect(
+      ws.request('open_orders', {}, { signal: AbortSignal.abort() })
+    ).rejects.toMatchObject({ code: 'ABORTED' });
+    expect(socket.actions('open_orders')).toEqual([]);
+
+    const controller = new AbortController();
+    const aborted = ws.request('open_orders', {}, { signal: controller.signal });
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ code: 'ABORTED' });
+
+    const dropped = ws.placeOrder(order);
+    socket.drop();
+    await expect(dropped).rejects.toThrow('Connection closed');
+  });
+});
@@ -4,58 +4,216 @@ import type {
   WsCancelResult,
   WsPlaceOrderParams,
   WsCancelOrderParams,
+  WsRequestMap,
+  WsRequestOptions,
   UserChannel,
   Timeframe,
+  WebSocketLike,
+  WebSocketFactory,
+  WsMarketEvent,
+  WsMarketsListUpdate,
+  WsOrderbookSnapshot,
+  WsOrderbookUpdate,
+  WsTradeUpdate,
+  WsTickerUpdate,
+  WsOhlcvUpdate,
+  WsInvoiceUpdate,
+  WsQrUpdate,
+  WsUserEventMap,
 } from './types';
+import { WS_OPEN, defaultWebSocketFactory } from './transport';
+import { KlingExError, NotConnectedError, TimeoutError } from './types';
+import { TypedEmitter } from './emitter';
+import { MessageStream } from './wsStream';
+import type { StreamOptions, StreamSink } from './wsStream';
 
 type MessageHandler<T = unknown> = (data: T) => void;
 type ErrorHandler = (error: Error) => void;
 
-interface MarketSubscription {
+/**
+ * Connection lifecycle:
+ * - `idle` — never connected
+ * - `connecting` — socket opening after `connect()`
+ * - `authenticating` — socket open, waiting for `auth_result`
+ * - `open` — authenticated (if a key is set) and subscriptions sent
+ * - `reconnecting` — connection lost; waiting for or making a reconnect attempt
+ * - `closed` — `disconnect()`, a close without reconnect, failed auth, or
+ *   reconnect attempts exhausted
+ */
+export type ConnectionState =
+  | 'idle'
+  | 'connecting'
+  | 'authenticating'
+  | 'open'
+  | 'reconnecting'
+  | 'closed';
+
+export interface WebSocketEvents {
+  /** The connection state changed. */
+  stateChange: [state: ConnectionState, previous: ConnectionState];
+  /** The server accepted the API key. */
+  authenticated: [];
+  /** A reconnect attempt was scheduled `delay` ms from now. */
+  reconnecting: [attempt: number, delay: number];
+  /** Subscriptions were restored after a reconnect. */
+  resubscribed: [subscriptions: number];
+  /** Reconnecting was abandoned after `maxReconnectAttempts`. */
+  reconnectFailed: [error: Error];
+  /** The socket closed. */
+  close: [code: number, reason: string];
+  /** Same errors as `onError`. */
+  error: [error: Error];
+  /** A `pong` arrived `latency` ms after its ping. */
+  pong: [latency: number];
+}
+
+/** Heartbeat round-trip times in ms over the last `samples` pongs. */
+export interface LatencyStats {
+  last: number | undefined;
+  mean: number | undefined;
+  p99: number | undefined;
+  samples: number;
+}
+
+/** Round-trip samples kept for `latency`. */
+const LATENCY_WINDOW = 100;
+
+interface OutstandingPing {
+  sentAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface MarketTarget {
   kind: 'market';
   /** "BTC-USDT", or "markets" for the markets list. */
   market: string;
-  /** Optional filter: only invoke if incoming message `type` matches one of these. */
-  types?: Set<string>;
-  handler: MessageHandler;
 }
 
-interface UserSubscription {
+interface UserTarget {
   kind: 'user';
   channel: UserChannel;
-  handler: MessageHandler;
 }
 
-interface OhlcvSubscription {
+interface OhlcvTarget {
   kind: 'ohlcv';
   marketId: number;
   timeframe: string;
-  handler: MessageHandler;
 }
 
-interface InvoiceSubscription {
+interface InvoiceTarget {
   kind: 'invoice';
   invoiceId: string;
-  handler: MessageHandler;
 }
 
-interface QrSubscription {
+interface QrTarget {
   kind: 'qr';
   sessionToken: string;
+}
+
+/** One server-side subscription. */
+type SubscriptionTarget = MarketTarget | UserTarget | OhlcvTarget | InvoiceTarget | QrTarget;
+
+interface Listener {
   handler: MessageHandler;
+  /** Optional filter: only invoke if incoming message `type` matches one of these. */
+  types?: Set<string>;
+}
+
+/** A server-side subscription and every local handler sharing it. */
+type Subscription = SubscriptionTarget & { listeners: Set<Listener> };
+
+/** Deterministic map key: one entry per server-side subscription. */
+function subscriptionKey(target: SubscriptionTarget): string {
+  switch (target.kind) {
+    case 'market':
+      return `market:${target.market}`;
+    case 'user':
+      return `user:${target.channel}`;
+    case 'ohlcv':
+      return `ohlcv:${target.marketId}:${target.timeframe}`;
+    case 'invoice':
+      return `invoice:${target.invoiceId}`;
+    case 'qr':
+      return `qr:${target.sessionToken}`;
+  }
+}
+
+/**
+ * `for await` streams over the same channels as the callback subscriptions.
+ * Each stream holds its own listener, so streams and callbacks can share a
+ * channel freely.
+ */
+export interface WebSocketStreams {
+  market(market: string, options?: StreamOptions): MessageStream<WsMarketEvent>;
+  ticker(market: string, options?: StreamOptions): MessageStream<WsTickerUpdate>;
+  trades(market: string, options?: StreamOptions): MessageStream<WsTradeUpdate>;
+  orderbook(
+    market: string,
+    options?: StreamOptions
+  ): MessageStream<WsOrderbookSnapshot | WsOrderbookUpdate>;
+  user<C extends UserChannel>(
+    channel: C,
+    options?: StreamOptions
+  ): MessageStream<WsUserEventMap[C]>;
+  ohlcv(
+    marketId: number,
+    timeframe: Timeframe | string,
+    options?: StreamOptions
+  ): MessageStream<WsOhlcvUpdate>;
+  invoice(invoiceId: string, options?: StreamOptions): MessageStream<WsInvoiceUpdate>;
 }
 
-type Subscription =
-  | MarketSubscription
-  | UserSubscription
-  | OhlcvSubscription
-  | InvoiceSubscription
-  | QrSubscription;
+function subscriptionFrame(
+  target: SubscriptionTarget,
+  subscribe: boolean
+): Record<string, unknown> {
+  const prefix = subscribe ? 'subscribe' : 'unsubscribe';
+  switch (target.kind) {
+    case 'market':
+      return { action: prefix, market: target.market };
+    case 'user':
+      return { action: prefix, type: target.channel };
+    case 'ohlcv':
+      return {
+        action: `${prefix}_ohlcv`,
+        market_id: target.marketId,
+        timeframe: target.timeframe,
+      };
+    case 'invoice':
+      return { action: `${prefix}_invoice`, invoice_id: target.invoiceId };
+    case 'qr':
+      return { action: `${prefix}_qr`, session_token: target.sessionToken };
+  }
+}
 
+/** Frame type answering each built-in action; see `registerResponse()`. */
+const RESPONSE_TYPES: Record<keyof WsRequestMap, string> = {
+  place_order: 'order_result',
+  cancel_order: 'cancel_result',
+};
+
+/** A request sent and awaiting its response. Settling cleans up after it. */
 interface PendingRequest {
+  /** Frame type that answers it; unset accepts any frame echoing the `requestId`. */
+  responseType: string | undefined;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/** A request held until the connection is ready. */
+interface QueuedRequest {
+  action: string;
+  data: Record<string, unknown>;
+  timeout: number;
+  signal: AbortSignal | undefined;
   resolve: (value: unknown) => void;
   reject: (error: Error) => void;
-  timer: ReturnType<typeof setTimeout>;
+  /** Clear the queue timer and abort listener. */
+  release: () => void;
+}
+
+function requestAborted(): KlingExError {
+  return new KlingExError('Request aborted', 'ABORTED');
 }
 
 /**
@@ -117,41 +275,116 @@ function inferUserChannel(msgType: string | undefined): string | null {
  *   - Invoice: `{action:"subscribe_invoice", invoice_id}`.
  *   - QR: `{action:"subscribe_qr", session_token}`.
  *   - Ping: `{action:"ping"}` -> server replies `{type:"pong"}`.
+ *   - Requests: `{action, requestId, ...params}` -> the action's response
+ *     frame (e.g. `order_result` for `place_order`) echoing `requestId`.
+ *
+ * Any number of handlers may listen on the same channel. Subscriptions are
+ * reference-counted: the server `subscribe` is sent for the first handler and
+ * `unsubscribe` after the last one is removed, and every returned unsubscribe
+ * function removes only its own handler.
+ *
+ * Connection state is exposed as `state` and every transition is emitted as
+ * `stateChange`; see `WebSocketEvents` for the other lifecycle events.
  *
  * JWT is intentionally not supported.
  */
-export class KlingExWebSocket {
-  private ws: WebSocket | null = null;
+export class KlingExWebSocket extends TypedEmitter<WebSocketEvents> {
+  private ws: WebSocketLike | null = null;
   private url: string;
   private apiKey: string;
-  private options: Required<WebSocketOptions>;
-  /** Subscription state keyed by a deterministic string. */
+  private options: Required<Omit<WebSocketOptions, 'webSocketFactory'>>;
+  private webSocketFactory?: WebSocketFactory;
+  /** Server-side subscriptions keyed by `subscriptionKey()`. */
   private subscriptions: Map<string, Subscription> = new Map();
   private reconnectAttempts = 0;
   private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  /** Resets `reconnectAttempts` once the connection has stayed up long enough. */
+  private stableTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Set by `disconnect()` so the resulting close isn't retried. */
+  private manualClose = false;
   private pingInterval: ReturnType<typeof setInterval> | null = null;
+  /** Pings awaiting a `pong`, oldest first (the server answers in order). */
+  private outstandingPings: OutstandingPing[] = [];
+  private latencySamples: number[] = [];
   private isConnecting = false;
+  private _state: ConnectionState = 'idle';
+  /** Set when the server rejects auth, so the resulting close isn't retried. */
+  private authFailed = false;
+  /**
+   * Set once the current connection attempt has reported a failure: a
+   * socket error, the auth gate and the reconnect loop all see the same one.
+   */
+  private attemptFailed = false;
   private errorHandler?: ErrorHandler;
+  private reconnectHandlers = new Set<() => void>();
+  /** Set after the first successful connect; later connects are reconnects. */
+  private hasConnected = false;
+  /** Bumped per connection attempt; an older `connect()` call stops at auth. */
+  private attemptId = 0;
   private pendingRequests = new Map<string, PendingRequest>();
+  private responseTypes = new Map<string, string>(Object.entries(RESPONSE_TYPES));
+  private requestQueue: QueuedRequest[] = [];
+  /**
+   * Open, authenticated and resubscribed. Until then only the auth frame is
+   * sent; subscription changes live in `subscriptions` and are replayed,
+   * and requests are queued or refused.
+   */
+  private ready = false;
   /** Resolved once the server confirms API-key auth (success). */
   private authResolved: Promise<void> | null = null;
   private resolveAuth: (() => void) | null = null;
   private rejectAuth: ((err: Error) => void) | null = null;
   private authTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Sinks of open streams, ended when the connection closes for good. */
+  private streamSinks = new Set<StreamSink<unknown>>();
+
+  /**
+   * Async-iterator versions of the subscription helpers. Streams end when
+   * the loop exits or on `disconnect()`, and throw if the connection is
+   * lost for good (closed without reconnect, or reconnect attempts used up).
+   * Across a reconnect they emit `disconnected` and `reconnected`, or end
+   * with `StreamDisconnectedError` if opened with `failOnDisconnect`.
+   *
+   * @example
+   * for await (const trade of client.ws.stream.trades('BTC-USDT', { bufferSize: 100 })) {
+   *   console.log(trade.price, trade.amount);
+   * }
+   */
+  readonly stream: WebSocketStreams = {
+    market: (market, options) => this.openStream((h) => this.subscribeMarket(market, h), options),
+    ticker: (market, options) => this.openStream((h) => this.ticker(market, h), options),
+    trades: (market, options) => this.openStream((h) => this.trades(market, h), options),
+    orderbook: (market, options) => this.openStream((h) => this.orderbook(market, h), options),
+    user: (channel, options) => this.openStream((h) => this.subscribeUser(channel, h), options),
+    ohlcv: (marketId, timeframe, options) =>
+      this.openStream((h) => this.subscribeOhlcv(marketId, timeframe, h), options),
+    invoice: (invoiceId, options) =>
+      this.openStream((h) => this.subscribeInvoice(invoiceId, h), options),
+  };
 
   constructor(
     url: string,
     auth: { apiKey: string },
     options: WebSocketOptions = {}
   ) {
+    super();
     this.url = url;
     this.apiKey = auth.apiKey;
     this.options = {
       reconnect: options.reconnect ?? true,
       reconnectInterval: options.reconnectInterval ?? 5000,
+      maxReconnectDelay: options.maxReconnectDelay ?? 60000,
+      reconnectJitter: options.reconnectJitter ?? true,
       maxReconnectAttempts: options.maxReconnectAttempts ?? 10,
+      reconnectOnCleanClose: options.reconnectOnCleanClose ?? true,
+      reconnectResetAfter: options.reconnectResetAfter ?? 30000,
       authTimeout: options.authTimeout ?? 10000,
+      pingInterval: options.pingInterval ?? 30000,
+      pongTimeout: options.pongTimeout ?? 10000,
+      requestQueueTimeout: options.requestQueueTimeout ?? 0,
+      requestTimeout: options.requestTimeout ?? 10000,
     };
+    this.webSocketFactory = options.webSocketFactory;
   }
 
   /**
@@ -160,7 +393,7 @@ export class KlingExWebSocket {
    * subscribe to user channels immediately after `await connect()` resolves.
    */
   async connect(): Promise<void> {
-    if (this.ws?.readyState === WebSocket.OPEN || this.isConnecting) {
+    if (this.ws?.readyState === WS_OPEN || this.isConnecting) {
       // Already connected/connecting — if auth is pending, await it.
       if (this.authResolved) {
         await this.authResolved;
@@ -169,18 +402,36 @@ export class KlingExWebSocket {
     }
 
     this.isConnecting = true;
+    const attempt = ++this.attemptId;
+    this.attemptFailed = false;
+    this.authFailed = false;
+    this.manualClose = false;
+    if (this._state !== 'reconnecting') {
+      this.setState('connecting');
+    }
+    let factory: WebSocketFactory;
+    try {
+      factory = this.webSocketFactory ?? (await defaultWebSocketFactory());
+    } catch {
+      this.isConnecting = false;
+      this.setState('closed');
+      throw new Error(
+        'No WebSocket implementation available: install the `ws` package or pass `webSocketFactory`'
+      );
+    }
     this.primeAuthGate();
 
     await new Promise<void>((resolve, reject) => {
       try {
-        this.ws = new WebSocket(this.url);
+        const socket = factory(this.url);
+        this.ws = socket;
 
         this.ws.onopen = () => {
           this.isConnecting = false;
-          this.reconnectAttempts = 0;
           this.startPingInterval();
           // Send auth message before resubscribing.
           if (this.apiKey) {
+            this.setState('authenticating');
             this.sendRaw({ type: 'auth', apiKey: this.apiKey });
           } else {
             // No API key — resolve the auth gate immediately.
@@ -190,28 +441,25 @@ export class KlingExWebSocket {
         };
 
         this.ws.onclose = (event) => {
-          this.isConnecting = false;
-          this.stopPingInterval();
-          this.failAuthGate(new Error('Connection closed before auth completed'));
-          this.rejectAllPending('Connection closed');
-
-          if (this.options.reconnect && !event.wasClean) {
-            this.scheduleReconnect();
-          }
+          // Unless `disconnect()` already let go of it and a newer socket took over.
+          if (this.ws === socket) this.ws = null;
+          this.handleClose(event.code, event.reason, event.wasClean);
         };
 
         this.ws.onerror = (_event) => {
           this.isConnecting = false;
           const err = new Error('WebSocket error');
-          this.errorHandler?.(err);
+          this.reportAttemptError(err);
           reject(err);
         };
 
         this.ws.onmessage = (event) => {
-          this.handleMessage(event.data as string);
+          this.handleMessage(String(event.data));
         };
       } catch (error) {
+        // No socket, so no close event will end this attempt.
         this.isConnecting = false;
+        this.failAuthGate(error instanceof Error ? error : new Error('WebSocket creation failed'));
         reject(error);
       }
     });
@@ -220,19 +468,70 @@ export class KlingExWebSocket {
     if (this.authResolved) {
       await this.authResolved;
     }
+    // `reconnect()` replaced this socket mid-auth; the newer attempt, which
+    // shared our auth gate, finishes the setup.
+    if (attempt !== this.attemptId) return;
 
     // Resubscribe (after auth, so user-channel resubs succeed).
+    this.ready = true;
     this.resubscribeAll();
+    this.flushRequestQueue();
+    this.setState('open');
+    this.startStableTimer();
+
+    if (this.hasConnected) {
+      this.emit('resubscribed', this.subscriptions.size);
+      for (const sink of [...this.streamSinks]) sink.resume();
+      for (const handler of [...this.reconnectHandlers]) handler();
+    }
+    this.hasConnected = true;
+  }
+
+  /** Current connection state. */
+  get state(): ConnectionState {
+    return this._state;
+  }
+
+  /**
+   * Heartbeat round-trip statistics over the last 100 pongs. `p99` is the
+   * nearest-rank 99th percentile.
+   */
+  get latency(): LatencyStats {
+    const samples = this.latencySamples;
+    if (samples.length === 0) {
+      return { last: undefined, mean: undefined, p99: undefined, samples: 0 };
+    }
+    const sorted = [...samples].sort((a, b) => a - b);
+    return {
+      last: samples[samples.length - 1],
+      mean: samples.reduce((sum, v) => sum + v, 0) / samples.length,
+      p99: sorted[Math.ceil(sorted.length * 0.99) - 1],
+      samples: samples.length,
+    };
+  }
+
+  /**
+   * Reconnect attempts made since the connection was last stable (open for
+   * `reconnectResetAfter` ms).
+   */
+  get reconnectAttempt(): number {
+    return this.reconnectAttempts;
   }
 
   /**
    * Disconnect from WebSocket server.
    */
   disconnect(): void {
-    this.options.reconnect = false;
+    // Detach streams first so the close below doesn't fail them.
+    const sinks = [...this.streamSinks];
+    this.streamSinks.clear();
+    this.manualClose = true;
+    this.ready = false;
     this.stopPingInterval();
+    this.clearStableTimer();
     this.failAuthGate(new Error('Client disconnected'));
     this.rejectAllPending('Client disconnected');
+    this.rejectQueued(new NotConnectedError('Client disconnected'));
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -245,45 +544,158 @@ export class KlingExWebSocket {
     }
 
     this.subscriptions.clear();
+    this.hasConnected = false;
+    this.setState('closed');
+    for (const sink of sinks) sink.end();
+  }
+
+  /**
+   * Drop the current connection and connect again now, skipping any
+   * pending backoff delay and resetting the attempt counter. Subscriptions
+   * are kept and restored as after an automatic reconnect. Resolves once
+   * connected (and authenticated, with an API key).
+   */
+  async reconnect(): Promise<void> {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.reconnectAttempts = 0;
+    // A socket still opening is as fresh as a new one would be.
+    if (this.isConnecting) return this.connect();
+
+    if (this.detachSocket(1000, 'Client reconnect')) {
+      // A caller still awaiting auth waits for the new connection instead.
+      this.resetConnection(1000, 'Client reconnect', true);
+      this.interruptStreams(1000, 'Client reconnect');
+    }
+    this.setState('reconnecting');
+    await this.connect();
   }
 
   /**
-   * Register an error handler.
+   * Switch to a new API key. If the current connection has already sent its
+   * `auth` frame, it is replaced via `reconnect()` so the server sees the new
+   * key; subscriptions, user channels included, are restored after the new
+   * `auth_result`. Otherwise the key is simply used for the next `auth`.
+   * A `connect()` still waiting for auth resolves with the new connection.
+   *
+   * Rejects if the server refuses the new key. As on `connect()`, the error
+   * is also emitted as `error` and the socket closes without reconnecting.
+   */
+  async setApiKey(apiKey: string): Promise<void> {
+    if (!apiKey) {
+      throw new Error('KlingExWebSocket.setApiKey: apiKey is required');
+    }
+    if (apiKey === this.apiKey) return;
+    this.apiKey = apiKey;
+    // Not open yet: the auth frame goes out on open and will use the new key.
+    if (!this.ws || this.isConnecting) return;
+    await this.reconnect();
+  }
+
+  /**
+   * Register an error handler. Replaces any previous one; use
+   * `on('error', ...)` to add several.
    */
   onError(handler: ErrorHandler): void {
     this.errorHandler = handler;
   }
 
+  /**
+   * Register a handler called after each successful reconnect, once auth has
+   * completed and subscriptions have been restored. Messages sent while the
+   * connection was down are lost, so use this to re-sync derived state.
+   * Returns a function that removes the handler.
+   */
+  onReconnect(handler: () => void): () => void {
+    this.reconnectHandlers.add(handler);
+    return () => {
+      this.reconnectHandlers.delete(handler);
+    };
+  }
+
   // =========================================================================
   // Trading (request/response over WS)
   // =========================================================================
 
-  async placeOrder(params: WsPlaceOrderParams): Promise<WsOrderResult> {
-    const result = (await this.sendRequest('place_order', {
-      symbol: params.symbol,
-      tradingPairId: params.tradingPairId,
-      side: params.side,
-      quantity: params.quantity,
-      price: params.price,
-      rawValues: params.rawValues,
-    })) as WsOrderResult;
+  async placeOrder(
+    params: WsPlaceOrderParams,
+    options?: WsRequestOptions
+  ): Promise<WsOrderResult> {
+    const result = await this.request(
+      'place_order',
+      {
+        symbol: params.symbol,
+        tradingPairId: params.tradingPairId,
+        side: params.side,
+        quantity: params.quantity,
+        price: params.price,
+        rawValues: params.rawValues,
+      },
+      options
+    );
     if (!result.success) {
       throw new Error(result.error || 'Order failed');
     }
     return result;
   }
 
-  async cancelOrder(params: WsCancelOrderParams): Promise<WsCancelResult> {
-    const result = (await this.sendRequest('cancel_order', {
-      orderId: params.orderId,
-      tradingPairId: params.tradingPairId,
-    })) as WsCancelResult;
+  async cancelOrder(
+    params: WsCancelOrderParams,
+    options?: WsRequestOptions
+  ): Promise<WsCancelResult> {
+    const result = await this.request(
+      'cancel_order',
+      { orderId: params.orderId, tradingPairId: params.tradingPairId },
+      options
+    );
     if (!result.success) {
       throw new Error(result.error || 'Cancel failed');
     }
     return result;
   }
 
+  /**
+   * Send `{action, requestId, ...params}` and resolve with the frame that
+   * answers it, matched on `requestId` and the action's registered response
+   * type. An `error` frame echoing the `requestId` rejects instead. The frame
+   * is returned as sent: check its `success` flag where the action has one.
+   *
+   * Gated like `placeOrder`: refused or queued (`requestQueueTimeout`) until
+   * the socket is connected and authenticated. Rejects with `TimeoutError`
+   * after `options.timeout` (default `requestTimeout`), with an `ABORTED`
+   * `KlingExError` if `options.signal` aborts, and with a plain `Error` if the
+   * connection drops first.
+   *
+   * @example
+   * ws.registerResponse('open_orders', 'open_orders_result');
+   * const res = await ws.request<{ orders: unknown[] }>('open_orders', {}, { timeout: 5000 });
+   */
+  request<A extends keyof WsRequestMap>(
+    action: A,
+    params: WsRequestMap[A]['params'],
+    options?: WsRequestOptions
+  ): Promise<WsRequestMap[A]['response']>;
+  request<T = Record<string, unknown>>(
+    action: string,
+    params?: Record<string, unknown>,
+    options?: WsRequestOptions
+  ): Promise<T>;
+  request(action: string, params: object = {}, options: WsRequestOptions = {}): Promise<unknown> {
+    const timeout = options.timeout ?? this.options.requestTimeout;
+    return this.sendRequest(action, { ...params }, timeout, options.signal);
+  }
+
+  /**
+   * Declare the frame `type` the server answers `action` with, so responses
+   * to `request(action)` are only matched on that type. Unregistered actions
+   * accept any frame echoing their `requestId`.
+   */
+  registerResponse(action: string, responseType: string): void {
+    this.responseTypes.set(action, responseType);
+  }
+
   // =========================================================================
   // Market data subscriptions (public)
   // =========================================================================
@@ -291,38 +703,36 @@ export class KlingExWebSocket {
   /**
    * Subscribe to a market and receive ticker/orderbook/trades updates for it.
    * The handler is invoked for every message tagged with this market. Filter
-   * by `message.type` (e.g. `"orderbook"`, `"ticker"`, `"trade"`).
+   * by `message.type`; the union narrows on it.
    */
-  subscribeMarket(market: string, handler: MessageHandler): () => void {
-    const key = `market:${market}`;
-    const sub: MarketSubscription = { kind: 'market', market, handler };
-    this.subscriptions.set(key, sub);
-    if (this.isOpen()) {
-      this.sendRaw({ action: 'subscribe', market });
-    }
-    return () => {
-      this.subscriptions.delete(key);
-      if (this.isOpen()) {
-        this.sendRaw({ action: 'unsubscribe', market });
-      }
-    };
+  subscribeMarket(market: string, handler: MessageHandler<WsMarketEvent>): () => void {
+    return this.addListener({ kind: 'market', market }, { handler: handler as MessageHandler });
   }
 
   /**
    * Convenience: subscribe to a market and filter to orderbook updates.
-   * Returned unsubscribe also tears down the underlying market subscription.
+   * Shares the underlying market subscription with every other handler for
+   * `market`.
    * Backend emits `orderbook_snapshot` frames (legacy `orderbook` is also
-   * accepted for forward-compat).
+   * accepted, as are incremental `orderbook_update` frames for forward-compat).
+   * See `LocalOrderBook` for a managed book built on this stream.
    */
-  orderbook(market: string, handler: MessageHandler): () => void {
-    return this.subscribeMarketWithFilter(market, ['orderbook_snapshot', 'orderbook'], handler);
+  orderbook(
+    market: string,
+    handler: MessageHandler<WsOrderbookSnapshot | WsOrderbookUpdate>
+  ): () => void {
+    return this.subscribeMarketWithFilter(
+      market,
+      ['orderbook_snapshot', 'orderbook', 'orderbook_update'],
+      handler
+    );
   }
 
   /**
    * Convenience: subscribe to a market and filter to trade events.
    * Backend emits `trade_update` (legacy `trade`/`trades` also accepted).
    */
-  trades(market: string, handler: MessageHandler): () => void {
+  trades(market: string, handler: MessageHandler<WsTradeUpdate>): () => void {
     return this.subscribeMarketWithFilter(market, ['trade_update', 'trade', 'trades'], handler);
   }
 
@@ -330,15 +740,15 @@ export class KlingExWebSocket {
    * Convenience: subscribe to a market and filter to ticker updates.
    * Backend emits `ticker_update` (legacy `ticker` also accepted).
    */
-  ticker(market: string, handler: MessageHandler): () => void {
+  ticker(market: string, handler: MessageHandler<WsTickerUpdate>): () => void {
     return this.subscribeMarketWithFilter(market, ['ticker_update', 'ticker'], handler);
   }
 
   /**
    * Subscribe to the global markets list channel.
    */
-  marketsList(handler: MessageHandler): () => void {
-    return this.subscribeMarket('markets', handler);
+  marketsList(handler: MessageHandler<WsMarketsListUpdate>): () => void {
+    return this.subscribeMarket('markets', handler as MessageHandler);
   }
 
   /**
@@ -347,115 +757,73 @@ export class KlingExWebSocket {
   subscribeOhlcv(
     marketId: number,
     timeframe: Timeframe | string,
-    handler: MessageHandler
+    handler: MessageHandler<WsOhlcvUpdate>
   ): () => void {
-    const key = `ohlcv:${marketId}:${timeframe}`;
-    const sub: OhlcvSubscription = { kind: 'ohlcv', marketId, timeframe, handler };
-    this.subscriptions.set(key, sub);
-    if (this.isOpen()) {
-      this.sendRaw({
-        action: 'subscribe_ohlcv',
-        market_id: marketId,
-        timeframe,
-      });
-    }
-    return () => {
-      this.subscriptions.delete(key);
-      if (this.isOpen()) {
-        this.sendRaw({
-          action: 'unsubscribe_ohlcv',
-          market_id: marketId,
-          timeframe,
-        });
-      }
-    };
+    return this.addListener(
+      { kind: 'ohlcv', marketId, timeframe },
+      { handler: handler as MessageHandler }
+    );
   }
 
   /**
    * Subscribe to invoice payment updates for a specific invoice ID. Public
    * channel — no auth required.
    */
-  subscribeInvoice(invoiceId: string, handler: MessageHandler): () => void {
-    const key = `invoice:${invoiceId}`;
-    const sub: InvoiceSubscription = { kind: 'invoice', invoiceId, handler };
-    this.subscriptions.set(key, sub);
-    if (this.isOpen()) {
-      this.sendRaw({ action: 'subscribe_invoice', invoice_id: invoiceId });
-    }
-    return () => {
-      this.subscriptions.delete(key);
-      if (this.isOpen()) {
-        this.sendRaw({ action: 'unsubscribe_invoice', invoice_id: invoiceId });
-      }
-    };
+  subscribeInvoice(invoiceId: string, handler: MessageHandler<WsInvoiceUpdate>): () => void {
+    return this.addListener({ kind: 'invoice', invoiceId }, { handler: handler as MessageHandler });
   }
 
   /**
    * Subscribe to QR-login status updates for a session token. Public channel.
    */
-  subscribeQR(sessionToken: string, handler: MessageHandler): () => void {
-    const key = `qr:${sessionToken}`;
-    const sub: QrSubscription = { kind: 'qr', sessionToken, handler };
-    this.subscriptions.set(key, sub);
-    if (this.isOpen()) {
-      this.sendRaw({ action: 'subscribe_qr', session_token: sessionToken });
-    }
-    return () => {
-      this.subscriptions.delete(key);
-      if (this.isOpen()) {
-        this.sendRaw({ action: 'unsubscribe_qr', session_token: sessionToken });
-      }
-    };
+  subscribeQR(sessionToken: string, handler: MessageHandler<WsQrUpdate>): () => void {
+    return this.addListener({ kind: 'qr', sessionToken }, { handler: handler as MessageHandler });
   }
 
   // =========================================================================
   // User channel subscriptions (require API-key auth)
   // =========================================================================
 
-  subscribeUser(channel: UserChannel, handler: MessageHandler): () => void {
-    const key = `user:${channel}`;
-    const sub: UserSubscription = { kind: 'user', channel, handler };
-    this.subscriptions.set(key, sub);
-    if (this.isOpen()) {
-      this.sendRaw({ action: 'subscribe', type: channel });
-    }
-    return () => {
-      this.subscriptions.delete(key);
-      if (this.isOpen()) {
-        this.sendRaw({ action: 'unsubscribe', type: channel });
-      }
-    };
+  /**
+   * Subscribe to a private user channel. The handler's payload type follows
+   * the channel, e.g. `'orders'` delivers `WsOrderEvent`.
+   */
+  subscribeUser<C extends UserChannel>(
+    channel: C,
+    handler: MessageHandler<WsUserEventMap[C]>
+  ): () => void {
+    return this.addListener({ kind: 'user', channel }, { handler: handler as MessageHandler });
   }
 
-  userOrders(handler: MessageHandler): () => void {
+  userOrders(handler: MessageHandler<WsUserEventMap['orders']>): () => void {
     return this.subscribeUser('orders', handler);
   }
 
-  userBalances(handler: MessageHandler): () => void {
+  userBalances(handler: MessageHandler<WsUserEventMap['balance']>): () => void {
     return this.subscribeUser('balance', handler);
   }
 
-  userTrades(handler: MessageHandler): () => void {
+  userTrades(handler: MessageHandler<WsUserEventMap['trades']>): () => void {
     return this.subscribeUser('trades', handler);
   }
 
-  userDeposits(handler: MessageHandler): () => void {
+  userDeposits(handler: MessageHandler<WsUserEventMap['deposits']>): () => void {
     return this.subscribeUser('deposits', handler);
   }
 
-  userWithdrawals(handler: MessageHandler): () => void {
+  userWithdrawals(handler: MessageHandler<WsUserEventMap['withdrawals']>): () => void {
     return this.subscribeUser('withdrawals', handler);
   }
 
-  userTransfers(handler: MessageHandler): () => void {
+  userTransfers(handler: MessageHandler<WsUserEventMap['transfer']>): () => void {
     return this.subscribeUser('transfer', handler);
   }
 
-  userNotifications(handler: MessageHandler): () => void {
+  userNotifications(handler: MessageHandler<WsUserEventMap['notifications']>): () => void {
     return this.subscribeUser('notifications', handler);
   }
 
-  accountEvents(handler: MessageHandler): () => void {
+  accountEvents(handler: MessageHandler<WsUserEventMap['account']>): () => void {
     return this.subscribeUser('account', handler);
   }
 
@@ -463,52 +831,57 @@ export class KlingExWebSocket {
   // Internal
   // =========================================================================
 
-  private subscribeMarketWithFilter(
+  private subscribeMarketWithFilter<E extends WsMarketEvent>(
     market: string,
-    typeFilter: string[],
-    handler: MessageHandler
+    typeFilter: E['type'][],
+    handler: MessageHandler<E>
   ): () => void {
-    // We allow multiple filtered subscriptions per market by keying on (market, types).
-    // Internally they're all separate entries that all match the same incoming
-    // messages from the server; the server only needs one subscribe per market.
-    const key = `market:${market}:${typeFilter.join(',')}`;
-    const sub: MarketSubscription = {
-      kind: 'market',
-      market,
-      types: new Set(typeFilter),
-      handler,
-    };
-    this.subscriptions.set(key, sub);
+    return this.addListener(
+      { kind: 'market', market },
+      { handler: handler as MessageHandler, types: new Set<string>(typeFilter) }
+    );
+  }
 
-    const sendIfNeeded = () => {
-      // If no other subscription for this market exists, send subscribe.
-      if (!this.hasOtherMarketSub(market, key) && this.isOpen()) {
-        this.sendRaw({ action: 'subscribe', market });
-      }
-    };
-    sendIfNeeded();
+  /**
+   * Attach a listener to `target`, subscribing on the server if it's the
+   * first one. The returned function detaches this listener only and
+   * unsubscribes on the server once none remain; extra calls are no-ops.
+   */
+  private addListener(target: SubscriptionTarget, listener: Listener): () => void {
+    const key = subscriptionKey(target);
+    let sub = this.subscriptions.get(key);
+    if (!sub) {
+      sub = { ...target, listeners: new Set() };
+      this.subscriptions.set(key, sub);
+    }
+    sub.listeners.add(listener);
+    if (sub.listeners.size === 1 && this.ready) {
+      this.sendRaw(subscriptionFrame(target, true));
+    }
 
     return () => {
-      this.subscriptions.delete(key);
-      if (!this.hasOtherMarketSub(market, key) && this.isOpen()) {
-        this.sendRaw({ action: 'unsubscribe', market });
+      const current = this.subscriptions.get(key);
+      // Stale after disconnect() or a second call: nothing of ours to remove.
+      if (!current?.listeners.delete(listener)) return;
+      if (current.listeners.size === 0) {
+        this.subscriptions.delete(key);
+        if (this.ready) {
+          this.sendRaw(subscriptionFrame(target, false));
+        }
       }
     };
   }
 
-  private hasOtherMarketSub(market: string, excludeKey: string): boolean {
-    for (const [k, sub] of this.subscriptions) {
-      if (k === excludeKey) continue;
-      if (sub.kind === 'market' && sub.market === market) return true;
-    }
-    return false;
-  }
-
   private isOpen(): boolean {
-    return this.ws?.readyState === WebSocket.OPEN;
+    return this.ws?.readyState === WS_OPEN;
   }
 
   private primeAuthGate(): void {
+    if (this.apiKey && this.rejectAuth) {
+      // Handed over by `reconnect()`: keep the promise earlier callers await.
+      this.startAuthTimer();
+      return;
+    }
     if (!this.apiKey) {
       this.authResolved = Promise.resolve();
       this.resolveAuth = null;
@@ -519,10 +892,7 @@ export class KlingExWebSocket {
       this.resolveAuth = resolve;
       this.rejectAuth = reject;
     });
-    if (this.authTimer) clearTimeout(this.authTimer);
-    this.authTimer = setTimeout(() => {
-      this.failAuthGate(new Error('Timed out waiting for auth_result'));
-    }, this.options.authTimeout);
+    this.startAuthTimer();
     // Don't let a rejected auth gate become an unhandled rejection: callers
     // that don't `await connect()` shouldn't crash the process.
     this.authResolved.catch(() => {
@@ -530,6 +900,13 @@ export class KlingExWebSocket {
     });
   }
 
+  private startAuthTimer(): void {
+    if (this.authTimer) clearTimeout(this.authTimer);
+    this.authTimer = setTimeout(() => {
+      this.rejectAuthentication(new Error('Timed out waiting for auth_result'));
+    }, this.options.authTimeout);
+  }
+
   private markAuthResolved(): void {
     if (this.authTimer) {
       clearTimeout(this.authTimer);
@@ -549,35 +926,147 @@ export class KlingExWebSocket {
       this.rejectAuth(err);
       this.resolveAuth = null;
       this.rejectAuth = null;
-      this.errorHandler?.(err);
+      this.reportAttemptError(err);
     }
   }
 
+  /**
+   * The server rejected the key or never answered: fail `connect()` and
+   * close the socket without scheduling a reconnect.
+   */
+  private rejectAuthentication(err: Error): void {
+    this.authFailed = true;
+    this.failAuthGate(err);
+    this.ws?.close(4001, 'Authentication failed');
+  }
+
+  private setState(next: ConnectionState): void {
+    const previous = this._state;
+    if (previous === next) return;
+    this._state = next;
+    this.emit('stateChange', next, previous);
+  }
+
+  private reportError(err: Error): void {
+    this.errorHandler?.(err);
+    this.emit('error', err);
+  }
+
+  /** Report why the current connection attempt failed, once per attempt. */
+  private reportAttemptError(err: Error): void {
+    if (this.attemptFailed) return;
+    this.attemptFailed = true;
+    this.reportError(err);
+  }
+
+  /**
+   * Send a correlated request once the connection is ready. While it isn't,
+   * fail fast with `NotConnectedError` or, with `requestQueueTimeout`, hold
+   * the request that long. `timeout` counts from when it is actually sent.
+   */
   private sendRequest(
     action: string,
     data: Record<string, unknown>,
-    timeout = 10000
+    timeout: number,
+    signal: AbortSignal | undefined
   ): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(requestAborted());
+    }
+    if (this.ready) {
+      return this.dispatchRequest(action, data, timeout, signal);
+    }
+    const hold = this.options.requestQueueTimeout;
+    if (hold <= 0) {
+      return Promise.reject(new NotConnectedError());
+    }
+    return new Promise((resolve, reject) => {
+      const drop = (error: Error) => {
+        queued.release();
+        this.requestQueue = this.requestQueue.filter((q) => q !== queued);
+        reject(error);
+      };
+      const onAbort = () => drop(requestAborted());
+      const timer = setTimeout(() => {
+        drop(new NotConnectedError(`WebSocket not connected within ${hold}ms`));
+      }, hold);
+      const queued: QueuedRequest = {
+        action,
+        data,
+        timeout,
+        signal,
+        resolve,
+        reject,
+        release: () => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+        },
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.requestQueue.push(queued);
+    });
+  }
+
+  private flushRequestQueue(): void {
+    const queue = this.requestQueue;
+    this.requestQueue = [];
+    for (const queued of queue) {
+      queued.release();
+      this.dispatchRequest(queued.action, queued.data, queued.timeout, queued.signal).then(
+        queued.resolve,
+        queued.reject
+      );
+    }
+  }
+
+  private rejectQueued(error: Error): void {
+    const queue = this.requestQueue;
+    this.requestQueue = [];
+    for (const queued of queue) {
+      queued.release();
+      queued.reject(error);
+    }
+  }
+
+  private dispatchRequest(
+    action: string,
+    data: Record<string, unknown>,
+    timeout: number,
+    signal: AbortSignal | undefined
+  ): Promise<unknown> {
+    if (signal?.aborted) {
+      return Promise.reject(requestAborted());
+    }
     const requestId =
       typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
         ? crypto.randomUUID()
         : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
     return new Promise((resolve, reject) => {
-      const timer = setTimeout(() => {
+      const settle = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
         this.pendingRequests.delete(requestId);
-        reject(new Error('Request timeout'));
+      };
+      const onAbort = () => {
+        settle();
+        reject(requestAborted());
+      };
+      const timer = setTimeout(() => {
+        settle();
+        reject(new TimeoutError(`No ${action} response within ${timeout}ms`));
       }, timeout);
+      signal?.addEventListener('abort', onAbort, { once: true });
 
       this.pendingRequests.set(requestId, {
+        responseType: this.responseTypes.get(action),
         resolve: (v) => {
-          clearTimeout(timer);
+          settle();
           resolve(v);
         },
         reject: (e) => {
-          clearTimeout(timer);
+          settle();
           reject(e);
         },
-        timer,
       });
 
       this.sendRaw({ action, requestId, ...data });
@@ -585,11 +1074,9 @@ export class KlingExWebSocket {
   }
 
   private rejectAllPending(reason: string): void {
-    for (const [, pending] of this.pendingRequests) {
-      clearTimeout(pending.timer);
+    for (const pending of [...this.pendingRequests.values()]) {
       pending.reject(new Error(reason));
     }
-    this.pendingRequests.clear();
   }
 
   private sendRaw(data: unknown): void {
@@ -603,7 +1090,7 @@ export class KlingExWebSocket {
     try {
       message = JSON.parse(raw) as Record<string, unknown>;
     } catch (error) {
-      this.errorHandler?.(error instanceof Error ? error : new Error('Failed to parse message'));
+      this.reportError(error instanceof Error ? error : new Error('Failed to parse message'));
       return;
     }
 
@@ -611,13 +1098,15 @@ export class KlingExWebSocket {
 
     // 1) Server-level frames.
     if (msgType === 'pong') {
+      this.handlePong();
       return;
     }
     if (msgType === 'auth_result') {
       if (message.success) {
         this.markAuthResolved();
+        this.emit('authenticated');
       } else {
-        this.failAuthGate(new Error(String(message.error ?? 'Auth failed')));
+        this.rejectAuthentication(new Error(String(message.error ?? 'Auth failed')));
       }
       return;
     }
@@ -625,20 +1114,22 @@ export class KlingExWebSocket {
       // Acknowledgement; nothing to dispatch.
       return;
     }
-    if (msgType === 'error') {
-      this.errorHandler?.(new Error(String(message.message ?? 'WebSocket error')));
+
+    // 2) Request/response correlation.
+    const requestId = typeof message.requestId === 'string' ? message.requestId : undefined;
+    const pending = requestId === undefined ? undefined : this.pendingRequests.get(requestId);
+    if (pending && msgType === 'error') {
+      pending.reject(new Error(String(message.message ?? 'Request failed')));
+      return;
+    }
+    if (pending && (pending.responseType === undefined || msgType === pending.responseType)) {
+      pending.resolve(message);
       return;
     }
 
-    // 2) Request/response correlation for trading frames.
-    if (msgType === 'order_result' || msgType === 'cancel_result') {
-      const requestId = message.requestId as string | undefined;
-      if (requestId && this.pendingRequests.has(requestId)) {
-        const pending = this.pendingRequests.get(requestId)!;
-        this.pendingRequests.delete(requestId);
-        pending.resolve(message);
-        return;
-      }
+    if (msgType === 'error') {
+      this.reportError(new Error(String(message.message ?? 'WebSocket error')));
+      return;
     }
 
     // 3) Dispatch to subscriptions.
@@ -665,13 +1156,12 @@ export class KlingExWebSocket {
     const isUserEvent = !!userId || userChannel !== null;
     const isPublicMarketEvent = !!market && !isUserEvent;
 
-    for (const sub of this.subscriptions.values()) {
+    for (const sub of [...this.subscriptions.values()]) {
       switch (sub.kind) {
         case 'market': {
           if (!isPublicMarketEvent) break;
           if (market !== sub.market) break;
-          if (sub.types && msgType && !sub.types.has(msgType)) break;
-          sub.handler(message);
+          this.notify(sub, message, msgType);
           break;
         }
         case 'user': {
@@ -685,25 +1175,25 @@ export class KlingExWebSocket {
           // user event type ships server-side without an SDK update, we
           // prefer silent-drop to spamming every handler.
           if (userChannel === sub.channel) {
-            sub.handler(message);
+            this.notify(sub, message, msgType);
           }
           break;
         }
         case 'ohlcv': {
           if (ohlcvMarketId === sub.marketId && ohlcvTimeframe === sub.timeframe) {
-            sub.handler(message);
+            this.notify(sub, message, msgType);
           }
           break;
         }
         case 'invoice': {
           if (invoiceId === sub.invoiceId) {
-            sub.handler(message);
+            this.notify(sub, message, msgType);
           }
           break;
         }
         case 'qr': {
           if (sessionToken === sub.sessionToken) {
-            sub.handler(message);
+            this.notify(sub, message, msgType);
           }
           break;
         }
@@ -711,57 +1201,169 @@ export class KlingExWebSocket {
     }
   }
 
+  /** Invoke each listener of `sub` whose type filter accepts the message. */
+  private notify(sub: Subscription, message: unknown, msgType: string | undefined): void {
+    // Copy: handlers may unsubscribe (themselves or others) while we iterate.
+    for (const listener of [...sub.listeners]) {
+      if (listener.types && msgType && !listener.types.has(msgType)) continue;
+      listener.handler(message);
+    }
+  }
+
+  private openStream<T>(
+    attach: (handler: MessageHandler<T>) => () => void,
+    options?: StreamOptions
+  ): MessageStream<T> {
+    return new MessageStream<T>((sink) => {
+      const off = attach((message) => sink.push(message));
+      this.streamSinks.add(sink);
+      return () => {
+        off();
+        this.streamSinks.delete(sink);
+      };
+    }, options);
+  }
+
+  private interruptStreams(code: number, reason: string): void {
+    for (const sink of [...this.streamSinks]) sink.interrupt(code, reason);
+  }
+
+  private endStreams(error: Error): void {
+    const sinks = [...this.streamSinks];
+    this.streamSinks.clear();
+    for (const sink of sinks) sink.fail(error);
+  }
+
   private resubscribeAll(): void {
-    // De-dup market subscribes so we only send one subscribe per market.
-    const sentMarkets = new Set<string>();
     for (const sub of this.subscriptions.values()) {
-      switch (sub.kind) {
-        case 'market':
-          if (!sentMarkets.has(sub.market)) {
-            this.sendRaw({ action: 'subscribe', market: sub.market });
-            sentMarkets.add(sub.market);
-          }
-          break;
-        case 'user':
-          this.sendRaw({ action: 'subscribe', type: sub.channel });
-          break;
-        case 'ohlcv':
-          this.sendRaw({
-            action: 'subscribe_ohlcv',
-            market_id: sub.marketId,
-            timeframe: sub.timeframe,
-          });
-          break;
-        case 'invoice':
-          this.sendRaw({ action: 'subscribe_invoice', invoice_id: sub.invoiceId });
-          break;
-        case 'qr':
-          this.sendRaw({ action: 'subscribe_qr', session_token: sub.sessionToken });
-          break;
-      }
+      this.sendRaw(subscriptionFrame(sub, true));
     }
   }
 
   private scheduleReconnect(): void {
     if (this.reconnectAttempts >= this.options.maxReconnectAttempts) {
-      this.errorHandler?.(new Error('Max reconnection attempts reached'));
+      const err = new Error('Max reconnection attempts reached');
+      this.reportError(err);
+      this.setState('closed');
+      this.emit('reconnectFailed', err);
+      this.endStreams(err);
+      this.rejectQueued(new NotConnectedError(err.message));
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = this.options.reconnectInterval * Math.pow(1.5, this.reconnectAttempts - 1);
+    const { reconnectInterval, maxReconnectDelay, reconnectJitter } = this.options;
+    const backoff = Math.min(
+      maxReconnectDelay,
+      reconnectInterval * Math.pow(1.5, this.reconnectAttempts - 1)
+    );
+    const delay = Math.round(reconnectJitter ? Math.random() * backoff : backoff);
+    this.setState('reconnecting');
+    this.emit('reconnecting', this.reconnectAttempts, delay);
 
     this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
       this.connect().catch((error) => {
-        this.errorHandler?.(error instanceof Error ? error : new Error('Reconnection failed'));
+        this.reportAttemptError(
+          error instanceof Error ? error : new Error('Reconnection failed')
+        );
+        // Failed before there was a socket (e.g. the factory threw), so no
+        // `onclose` schedules the next attempt: back off from here instead.
+        if (!this.ws && !this.reconnectTimeout && this._state === 'reconnecting') {
+          this.scheduleReconnect();
+        }
       });
     }, delay);
   }
 
+  private handleClose(code: number, reason: string, wasClean: boolean): void {
+    this.resetConnection(code, reason);
+
+    const retry =
+      this.options.reconnect &&
+      !this.manualClose &&
+      !this.authFailed &&
+      (!wasClean || this.options.reconnectOnCleanClose);
+    if (retry) {
+      this.interruptStreams(code, reason);
+      this.scheduleReconnect();
+    } else {
+      this.setState('closed');
+      this.endStreams(new Error(`WebSocket closed (code ${code})`));
+      this.rejectQueued(new NotConnectedError(`WebSocket closed (code ${code})`));
+    }
+  }
+
+  /**
+   * Abandon a socket that stopped answering. A half-open connection may
+   * never complete the close handshake, so detach it and run the close
+   * path now instead of waiting for `onclose`.
+   */
+  private dropConnection(reason: string): void {
+    if (this.detachSocket(4000, reason)) {
+      this.handleClose(4000, reason, false);
+    }
+  }
+
+  /**
+   * Close the current socket with its handlers detached, so its `onclose`
+   * never runs. Returns false if there was no socket.
+   */
+  private detachSocket(code: number, reason: string): boolean {
+    const socket = this.ws;
+    if (!socket) return false;
+    socket.onopen = null;
+    socket.onclose = null;
+    socket.onerror = null;
+    socket.onmessage = null;
+    this.ws = null;
+    try {
+      socket.close(code, reason);
+    } catch {
+      // Already closing; nothing to do.
+    }
+    return true;
+  }
+
+  /** Per-connection cleanup shared by every way a connection ends. */
+  private resetConnection(code: number, reason: string, keepAuthGate = false): void {
+    this.ready = false;
+    this.isConnecting = false;
+    this.stopPingInterval();
+    this.clearStableTimer();
+    if (keepAuthGate) {
+      if (this.authTimer) clearTimeout(this.authTimer);
+      this.authTimer = null;
+    } else {
+      this.failAuthGate(new Error('Connection closed before auth completed'));
+    }
+    this.rejectAllPending('Connection closed');
+    this.emit('close', code, reason);
+  }
+
+  private startStableTimer(): void {
+    this.clearStableTimer();
+    const after = this.options.reconnectResetAfter;
+    if (after <= 0) {
+      this.reconnectAttempts = 0;
+      return;
+    }
+    this.stableTimer = setTimeout(() => {
+      this.stableTimer = null;
+      this.reconnectAttempts = 0;
+    }, after);
+  }
+
+  private clearStableTimer(): void {
+    if (this.stableTimer) {
+      clearTimeout(this.stableTimer);
+      this.stableTimer = null;
+    }
+  }
+
   private startPingInterval(): void {
-    this.pingInterval = setInterval(() => {
-      this.sendRaw({ action: 'ping' });
-    }, 30000);
+    this.stopPingInterval();
+    this.pingInterval = setInterval(() => this.sendPing(), this.options.pingInterval);
   }
 
   private stopPingInterval(): void {
@@ -769,5 +1371,34 @@ export class KlingExWebSocket {
       clearInterval(this.pingInterval);
       this.pingInterval = null;
     }
+    for (const ping of this.outstandingPings) {
+      if (ping.timer) clearTimeout(ping.timer);
+    }
+    this.outstandingPings = [];
+  }
+
+  private sendPing(): void {
+    if (!this.ready) return;
+    const { pongTimeout } = this.options;
+    const timer =
+      pongTimeout > 0
+        ? setTimeout(() => {
+            const err = new Error(`No pong within ${pongTimeout}ms; reconnecting`);
+            this.reportError(err);
+            this.dropConnection('Pong timeout');
+          }, pongTimeout)
+        : null;
+    this.outstandingPings.push({ sentAt: Date.now(), timer });
+    this.sendRaw({ action: 'ping' });
+  }
+
+  private handlePong(): void {
+    const ping = this.outstandingPings.shift();
+    if (!ping) return;
+    if (ping.timer) clearTimeout(ping.timer);
+    const latency = Date.now() - ping.sentAt;
+    this.latencySamples.push(latency);
+    if (this.latencySamples.length > LATENCY_WINDOW) this.latencySamples.shift();
+    this.emit('pong', latency);
   }
 }
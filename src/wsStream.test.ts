@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { KlingExWebSocket } from './websocket';
+import { StreamDisconnectedError, StreamOverflowError } from './types';
+import type { WebSocketOptions } from './types';
+import { connectFake, fakeSockets } from './testing/fakeSocket';
+import type { FakeSocket } from './testing/fakeSocket';
+
+function connection(options: WebSocketOptions = {}) {
+  const { webSocketFactory, latest } = fakeSockets();
+  const ws = new KlingExWebSocket(
+    'wss://example.test/ws',
+    { apiKey: 'key' },
+    { webSocketFactory, reconnectInterval: 100, reconnectJitter: false, ...options }
+  );
+  return { ws, latest, connect: () => connectFake(ws, latest) };
+}
+
+const trade = (socket: FakeSocket, price: string) =>
+  socket.push({ type: 'trade_update', market: 'BTC-USDT', side: 'buy', price, amount: '1' });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('MessageStream', () => {
+  it('yields messages in order and unsubscribes when the loop exits', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const trades = ws.stream.trades('BTC-USDT');
+    expect(socket.actions('subscribe')).toEqual([{ action: 'subscribe', market: 'BTC-USDT' }]);
+
+    trade(socket, '1');
+    trade(socket, '2');
+    const prices: Array<string | undefined> = [];
+    for await (const t of trades) {
+      prices.push(t.price);
+      if (prices.length === 2) break;
+    }
+    expect(prices).toEqual(['1', '2']);
+    expect(socket.actions('unsubscribe')).toEqual([
+      { action: 'unsubscribe', market: 'BTC-USDT' },
+    ]);
+  });
+
+  it('applies the overflow policy once bufferSize messages are unread', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const oldest = ws.stream.trades('BTC-USDT', { bufferSize: 2 });
+    const newest = ws.stream.trades('BTC-USDT', { bufferSize: 2, overflow: 'dropNewest' });
+    const strict = ws.stream.trades('BTC-USDT', { bufferSize: 2, overflow: 'error' });
+    for (const price of ['1', '2', '3']) trade(socket, price);
+
+    expect(oldest.dropped).toBe(1);
+    expect((await oldest.next()).value.price).toBe('2');
+    expect(newest.dropped).toBe(1);
+    expect((await newest.next()).value.price).toBe('1');
+    // Unread messages still come first, then the error.
+    expect((await strict.next()).value.price).toBe('1');
+    expect((await strict.next()).value.price).toBe('2');
+    await expect(strict.next()).rejects.toBeInstanceOf(StreamOverflowError);
+  });
+
+  it('stays open across a reconnect and reports the gap once', async () => {
+    const { ws, latest, connect } = connection();
+    const socket = await connect();
+    const trades = ws.stream.trades('BTC-USDT');
+    const events: string[] = [];
+    trades.on('disconnected', (code) => events.push(`disconnected ${code}`));
+    trades.on('reconnected', () => events.push('reconnected'));
+
+    socket.drop();
+    await vi.advanceTimersByTimeAsync(100);
+    // The first attempt fails too; still one gap.
+    latest().drop();
+    await vi.advanceTimersByTimeAsync(150);
+    const next = latest();
+    next.open();
+    next.authenticate();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(events).toEqual(['disconnected 1006', 'reconnected']);
+
+    trade(next, '5');
+    expect((await trades.next()).value.price).toBe('5');
+  });
+
+  it('fails with StreamDisconnectedError on a drop when failOnDisconnect is set', async () => {
+    const { ws, connect } = connection();
+    const socket = await connect();
+    const trades = ws.stream.trades('BTC-USDT', { failOnDisconnect: true });
+    const reading = trades.next();
+    socket.drop();
+    const error = await reading.catch((err: unknown) => err);
+    expect(error).toBeInstanceOf(StreamDisconnectedError);
+    expect(error).toMatchObject({ closeCode: 1006 });
+  });
+
+  it('ends on disconnect() and fails once reconnecting gives up', async () => {
+    const { ws, latest, connect } = connection({ maxReconnectAttempts: 1 });
+    let socket = await connect();
+    const ended = ws.stream.trades('BTC-USDT');
+    const reading = ended.next();
+    ws.disconnect();
+    await expect(reading).resolves.toEqual({ value: undefined, done: true });
+
+    socket = await connect();
+    const failed = ws.stream.trades('BTC-USDT');
+    socket.drop();
+    await vi.advanceTimersByTimeAsync(100);
+    latest().drop();
+    await expect(failed.next()).rejects.toThrow('Max reconnection attempts reached');
+  });
+});
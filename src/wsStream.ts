@@ -0,0 +1,206 @@
+import { TypedEmitter } from './emitter';
+import { StreamDisconnectedError, StreamOverflowError } from './types';
+
+/**
+ * What a stream does when a message arrives and its buffer is full:
+ * - `'dropOldest'` — discard the oldest unread message (default)
+ * - `'dropNewest'` — discard the incoming message
+ * - `'error'` — end the stream with `StreamOverflowError`
+ */
+export type StreamOverflow = 'dropOldest' | 'dropNewest' | 'error';
+
+export interface StreamOptions {
+  /** Maximum unread messages held (default: 1000). */
+  bufferSize?: number;
+  /** Policy once `bufferSize` is reached (default: `'dropOldest'`). */
+  overflow?: StreamOverflow;
+  /**
+   * End the stream with `StreamDisconnectedError` as soon as the connection
+   * drops, instead of waiting through reconnects (default: false).
+   */
+  failOnDisconnect?: boolean;
+}
+
+export interface MessageStreamEvents {
+  /**
+   * The connection dropped and a reconnect is pending. The stream stays
+   * open, but messages sent until `reconnected` are missed.
+   */
+  disconnected: [code: number, reason: string];
+  /** The channel is subscribed again after a `disconnected`. */
+  reconnected: [];
+}
+
+/** Producer side of a `MessageStream`. */
+export interface StreamSink<T> {
+  push(value: T): void;
+  /** Finish normally; the iterator completes after buffered messages. */
+  end(): void;
+  /** Finish with an error; thrown by the iterator after buffered messages. */
+  fail(error: Error): void;
+  /** The connection dropped; a reconnect will follow. */
+  interrupt(code: number, reason: string): void;
+  /** The connection is back and the channel resubscribed. */
+  resume(): void;
+}
+
+const DEFAULT_BUFFER_SIZE = 1000;
+
+/**
+ * Bounded, `for await`-compatible queue of WebSocket messages. Subscribes
+ * on creation, so nothing is missed between creating the stream and
+ * starting the loop; unsubscribes when the loop exits (`break`, `return`
+ * or a thrown error), when `close()` is called, or when the stream fails.
+ * A reconnect doesn't end the stream: listen for `disconnected` and
+ * `reconnected` to learn about the gap, or set `failOnDisconnect`.
+ *
+ * @example
+ * const trades = client.ws.stream.trades('BTC-USDT');
+ * trades.on('reconnected', () => void resyncFromRest());
+ * for await (const trade of trades) {
+ *   if (trade.side === 'sell') await react(trade);
+ * }
+ */
+export class MessageStream<T>
+  extends TypedEmitter<MessageStreamEvents>
+  implements AsyncIterableIterator<T>
+{
+  private buffer: T[] = [];
+  private waiting: Array<{
+    resolve: (result: IteratorResult<T>) => void;
+    reject: (error: Error) => void;
+  }> = [];
+  private done = false;
+  private error: Error | null = null;
+  private cleanup: (() => void) | null = null;
+  private bufferSize: number;
+  private overflow: StreamOverflow;
+  private failOnDisconnect: boolean;
+  private interrupted = false;
+  private _dropped = 0;
+
+  /**
+   * @param start - Attaches `sink` to a message source and returns a
+   *   function that detaches it.
+   */
+  constructor(start: (sink: StreamSink<T>) => () => void, options: StreamOptions = {}) {
+    super();
+    this.bufferSize = Math.max(1, options.bufferSize ?? DEFAULT_BUFFER_SIZE);
+    this.overflow = options.overflow ?? 'dropOldest';
+    this.failOnDisconnect = options.failOnDisconnect ?? false;
+    const cleanup = start({
+      push: (value) => this.push(value),
+      end: () => this.finish(null),
+      fail: (error) => this.finish(error),
+      interrupt: (code, reason) => this.interrupt(code, reason),
+      resume: () => this.resume(),
+    });
+    if (this.done) {
+      cleanup();
+    } else {
+      this.cleanup = cleanup;
+    }
+  }
+
+  /** Messages discarded by the `dropOldest` / `dropNewest` policies so far. */
+  get dropped(): number {
+    return this._dropped;
+  }
+
+  /** Messages received but not yet read. */
+  get buffered(): number {
+    return this.buffer.length;
+  }
+
+  next(): Promise<IteratorResult<T>> {
+    if (this.buffer.length > 0) {
+      return Promise.resolve({ value: this.buffer.shift() as T, done: false });
+    }
+    if (this.error) {
+      const error = this.error;
+      this.error = null;
+      return Promise.reject(error);
+    }
+    if (this.done) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+    return new Promise((resolve, reject) => {
+      this.waiting.push({ resolve, reject });
+    });
+  }
+
+  /** Called by `for await` on `break`; unsubscribes and drops unread messages. */
+  return(): Promise<IteratorResult<T>> {
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator](): this {
+    return this;
+  }
+
+  /** Unsubscribe and end the stream, discarding unread messages. */
+  close(): void {
+    this.buffer = [];
+    this.error = null;
+    this.finish(null);
+  }
+
+  private push(value: T): void {
+    if (this.done) return;
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter.resolve({ value, done: false });
+      return;
+    }
+    if (this.buffer.length >= this.bufferSize) {
+      switch (this.overflow) {
+        case 'dropNewest':
+          this._dropped++;
+          return;
+        case 'dropOldest':
+          this.buffer.shift();
+          this._dropped++;
+          break;
+        case 'error':
+          this.finish(new StreamOverflowError(this.bufferSize));
+          return;
+      }
+    }
+    this.buffer.push(value);
+  }
+
+  private interrupt(code: number, reason: string): void {
+    if (this.done) return;
+    if (this.failOnDisconnect) {
+      this.finish(new StreamDisconnectedError(code, reason));
+      return;
+    }
+    // Failed reconnect attempts close again; one gap is one event.
+    if (this.interrupted) return;
+    this.interrupted = true;
+    this.emit('disconnected', code, reason);
+  }
+
+  private resume(): void {
+    if (this.done || !this.interrupted) return;
+    this.interrupted = false;
+    this.emit('reconnected');
+  }
+
+  private finish(error: Error | null): void {
+    if (this.done) return;
+    this.done = true;
+    this.cleanup?.();
+    this.cleanup = null;
+    // Anyone still waiting has an empty buffer ahead of them.
+    const waiting = this.waiting;
+    this.waiting = [];
+    if (error && waiting.length > 0) {
+      for (const waiter of waiting) waiter.reject(error);
+      return;
+    }
+    for (const waiter of waiting) waiter.resolve({ value: undefined, done: true });
+    this.error = error;
+  }
+}